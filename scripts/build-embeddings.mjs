@@ -0,0 +1,16 @@
+import { loadCorpus } from '../src/lib/search/corpus.ts';
+import { EMBEDDINGS_FILE, writeEmbeddingFile } from '../src/lib/search/vectorStore.ts';
+
+// Embeds every snippet of the local corpus (scraped-snippets.json and
+// public/dataset.json) for semantic and hybrid search.
+// EMBEDDING_PROVIDER selects the embedder, hashed n-grams by default.
+const buildEmbeddings = async () => {
+  const snippets = loadCorpus();
+  const file = await writeEmbeddingFile(snippets);
+  console.log(`✅ Embedded ${snippets.length} snippets with ${file.provider} into ${EMBEDDINGS_FILE}`);
+};
+
+buildEmbeddings().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+import { parseArgs } from 'util';
+import { INGEST_CONFIG_FILE, loadIngestConfig } from '../src/lib/ingest/config.ts';
+import { runIngest } from '../src/lib/ingest/pipeline.ts';
+
+// Fetches what changed since the last run for every source listed in
+// ingest.config.json and merges it into the dataset.
+//   npm run ingest
+//   npm run ingest -- --source dev.to --source hashnode
+//   npm run ingest -- --full    (ignore checkpoints, fetch everything)
+//   npm run ingest -- --config my-sources.json
+//   npm run ingest -- --full --record fixtures/http   (save every response)
+//   npm run ingest -- --replay fixtures/http          (offline, from saved responses)
+const { values } = parseArgs({
+  options: {
+    config: { type: 'string', default: INGEST_CONFIG_FILE },
+    source: { type: 'string', multiple: true },
+    full: { type: 'boolean', default: false },
+    record: { type: 'string' },
+    replay: { type: 'string' }
+  }
+});
+
+if (values.record && values.replay) {
+  console.error('❌ --record and --replay can\'t be used together');
+  process.exit(1);
+}
+const fixtures = values.record
+  ? { mode: 'record', dir: values.record }
+  : values.replay
+    ? { mode: 'replay', dir: values.replay }
+    : undefined;
+
+const pad = (value, width) => String(value).padStart(width);
+
+const ingest = async () => {
+  const config = loadIngestConfig(values.config);
+  console.log(`🚀 Ingesting ${config.sources.length} configured sources...`);
+  if (fixtures) console.log(`📼 ${fixtures.mode === 'record' ? 'Recording responses to' : 'Replaying responses from'} ${fixtures.dir}`);
+  console.log('');
+
+  const { snippets, changelog } = await runIngest(config, { sources: values.source, full: values.full, fixtures });
+  const { reports } = changelog;
+
+  console.log('\n📊 Ingest Summary:');
+  console.log(`   ${'source'.padEnd(20)}${pad('fetched', 9)}${pad('failed', 8)}${pad('dropped', 9)}${pad('kept', 6)}${pad('unchanged', 11)}${pad('code blocks', 13)}`);
+  for (const report of reports) {
+    console.log(
+      `   ${report.source.padEnd(20)}${pad(report.fetched, 9)}${pad(report.failed, 8)}${pad(report.dropped, 9)}${pad(report.kept, 6)}${pad(report.unchanged, 11)}${pad(report.codeBlocks, 13)}`
+    );
+  }
+  console.log(`\n🔄 Changes: ${changelog.added.length} added, ${changelog.updated.length} updated, ${changelog.removed.length} removed, ${changelog.duplicates.length} merged as duplicates`);
+  console.log(`📝 Total records: ${snippets.length} (${snippets.filter(snippet => !snippet.duplicateOf).length} after merging duplicates)`);
+  console.log(`💾 Saved to: ${config.output} (changelog: ${config.changelogFile})`);
+
+  // A source where every request failed usually means a config or network problem
+  if (reports.some(report => report.failed > 0 && report.fetched === 0 && report.unchanged === 0)) {
+    process.exitCode = 1;
+  }
+};
+
+ingest().catch((err) => {
+  console.error('❌ Error during ingest:', err.message);
+  process.exit(1);
+});
@@ -1,6 +1,15 @@
 import { algoliasearch } from 'algoliasearch';
 import fs from 'fs';
+import { createHash } from 'crypto';
 import dotenv from 'dotenv';
+import { CORPUS_FILES, loadCorpus } from '../src/lib/search/corpus.ts';
+import { SORT_OPTIONS, getSortIndexName } from '../src/lib/search/sorting.ts';
+import { SUGGESTIONS_FILE } from '../src/lib/search/suggestions.ts';
+import { writeSuggestionFile } from '../src/lib/search/suggestionIndex.ts';
+import { EMBEDDINGS_FILE, writeEmbeddingFile } from '../src/lib/search/vectorStore.ts';
+import { DATASET_VERSION_FILE } from '../src/lib/search/cache.ts';
+import { validateDataset } from '../src/lib/snippetSchema.ts';
+import { getSources } from '../src/lib/snippet.ts';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -10,25 +19,132 @@ const client = algoliasearch(
   process.env.ALGOLIA_ADMIN_API_KEY
 );
 
+const indexName = process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME;
+
+// Algolia's default ranking criteria, which sort replicas put their attribute in front of
+const DEFAULT_RANKING = ['typo', 'geo', 'words', 'filters', 'proximity', 'attribute', 'exact', 'custom'];
+
+// One standard replica per non-relevance sort order on the search page
+const sortReplicas = SORT_OPTIONS
+  .filter(option => option.ranking)
+  .map(option => ({ name: getSortIndexName(indexName, option.value), ranking: option.ranking }));
+
+// objectIDs in the index that are not among the uploaded records
+const getStaleObjectIDs = async (records) => {
+  const current = new Set(records.map(record => record.objectID));
+  const stale = [];
+  await client.browseObjects({
+    indexName,
+    browseParams: { attributesToRetrieve: ['objectID'] },
+    aggregator: response => {
+      for (const hit of response.hits) {
+        if (!current.has(hit.objectID)) stale.push(hit.objectID);
+      }
+    }
+  });
+  return stale;
+};
+
+// Validates the corpus files as stored, like npm run validate-dataset: the records
+// loadCorpus returns are already migrated and coerced into shape, so checking those
+// would let any file through. Returns the number of invalid records.
+const validateCorpusFiles = () => {
+  let invalidCount = 0;
+  for (const file of CORPUS_FILES.filter(file => fs.existsSync(file))) {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const records = Array.isArray(parsed) ? parsed : parsed?.snippets ?? [];
+    const invalid = validateDataset(records);
+    for (const { index, objectID, issues } of invalid) {
+      console.error(`❌ ${file} #${index}${objectID ? ` ${objectID}` : ''}: ${issues.join('; ')}`);
+    }
+    invalidCount += invalid.length;
+  }
+  return invalidCount;
+};
+
 // Fetch and index objects in Algolia
 const processRecords = async () => {
-  const records = JSON.parse(fs.readFileSync('./scraped-snippets.json', 'utf-8'));
-  console.log(records);
+  const invalidCount = validateCorpusFiles();
+  if (invalidCount > 0) {
+    throw new Error(`${invalidCount} records do not match the snippet schema (npm run validate-dataset -- --migrate upgrades older records)`);
+  }
+  // Scraped snippets plus the code examples in public/dataset.json, migrated to the
+  // current snippet schema like the local index: publishedAt also becomes a Unix
+  // timestamp for date filters and the "newest" sort
+  const records = loadCorpus();
   // Set index settings
   await client.setSettings({
-    indexName: process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME,
-    attributesForFaceting: ['searchable(tags)', 'source'],
+    indexName,
+    // Keep replicas' searchable attributes and facets in sync with the main index
+    forwardToReplicas: true,
     indexSettings: {
-      searchableAttributes: ['title', 'snippet', 'tags', 'source'],
-      attributesForFaceting: ['tags', 'source'],
-      customRanking: ['desc(objectID)'],
+      searchableAttributes: ['title', 'snippet', 'tags', 'code', 'source'],
+      // Descriptions are highlighted in their plain text; the search page escapes
+      // highlighted values around the highlight tags
+      attributesToHighlight: ['title', 'snippetText', 'tags', 'source'],
+      // Lets "use state" and "setCount" match identifiers such as useState
+      camelCaseAttributes: ['code'],
+      // Facets shown on the search page; readingTime is faceted for the range slider's min/max
+      attributesForFaceting: [
+        'searchable(tags)',
+        // Every copy's source of a merged cross-post; records uploaded with it set
+        'sources',
+        'searchable(author)',
+        'language',
+        'category',
+        'readingTime'
+      ],
+      numericAttributesForFiltering: ['publishedAtTimestamp', 'readingTime'],
+      // Fresher articles win ties between equally relevant matches
+      customRanking: ['desc(publishedAtTimestamp)'],
+      replicas: sortReplicas.map(replica => replica.name),
       highlightPreTag: '<mark>',
       highlightPostTag: '</mark>'
     },
   });
+
+  // Standard replicas sort by their attribute first, then by relevance
+  for (const replica of sortReplicas) {
+    await client.setSettings({
+      indexName: replica.name,
+      indexSettings: {
+        ranking: [replica.ranking, ...DEFAULT_RANKING]
+      }
+    });
+    console.log(`✅ Configured sort replica ${replica.name}`);
+  }
+
   // Save objects to Algolia
-  await client.saveObjects({ indexName:  process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME, objects: records });
+  await client.saveObjects({
+    indexName,
+    objects: records.map(record => ({ ...record, sources: getSources(record) }))
+  });
+  // saveObjects only adds and updates: records dropped from the corpus, and
+  // copies merged into another record (loadCorpus leaves out duplicateOf
+  // records), are deleted from the index
+  const staleIds = await getStaleObjectIDs(records);
+  if (staleIds.length > 0) {
+    await client.deleteObjects({ indexName, objectIDs: staleIds });
+    console.log(`✅ Deleted ${staleIds.length} records no longer in the corpus`);
+  }
   console.log('✅ Successfully indexed objects and updated settings!');
+
+  // Titles and tags for /api/suggest, built from the same records
+  const suggestions = writeSuggestionFile(records);
+  console.log(`✅ Wrote ${suggestions.tags.length} tags and ${suggestions.titles.length} titles to ${SUGGESTIONS_FILE}`);
+
+  // Embeddings for semantic and hybrid search over the local corpus
+  const embeddings = await writeEmbeddingFile(records);
+  console.log(`✅ Wrote ${Object.keys(embeddings.vectors).length} embeddings to ${EMBEDDINGS_FILE}`);
+
+  // A new version clears the /api/search response cache
+  const datasetVersion = {
+    version: createHash('sha1').update(JSON.stringify(records)).digest('hex').slice(0, 12),
+    uploadedAt: new Date().toISOString(),
+    records: records.length
+  };
+  fs.writeFileSync(DATASET_VERSION_FILE, JSON.stringify(datasetVersion, null, 2));
+  console.log(`✅ Published dataset version ${datasetVersion.version}`);
 };
 
 processRecords()
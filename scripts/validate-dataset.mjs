@@ -0,0 +1,85 @@
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { CORPUS_FILES } from '../src/lib/search/corpus.ts';
+import { SNIPPET_SCHEMA_VERSION, getSchemaVersion, migrateRecord } from '../src/lib/snippet.ts';
+import { validateDataset } from '../src/lib/snippetSchema.ts';
+
+// Checks dataset files against the current Snippet schema and lists every
+// invalid record with the reasons. --migrate first rewrites each file with
+// its records brought up to the current schema version.
+//   npm run validate-dataset                      (the corpus files)
+//   npm run validate-dataset -- my-dataset.json
+//   npm run validate-dataset -- --migrate
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    migrate: { type: 'boolean', default: false },
+    // Invalid records listed per file
+    limit: { type: 'string', default: '50' }
+  }
+});
+
+const files = positionals.length > 0 ? positionals : CORPUS_FILES.filter(file => fs.existsSync(file));
+const limit = Number(values.limit);
+
+// Datasets are either a list of records or an object with a snippets list
+// (public/dataset.json), which is kept as it is around the records
+const readDatasetFile = (file) => {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (Array.isArray(parsed)) return { records: parsed, wrap: records => records };
+  if (parsed && Array.isArray(parsed.snippets)) {
+    return { records: parsed.snippets, wrap: records => ({ ...parsed, snippets: records }) };
+  }
+  throw new Error('expected a list of records or an object with a snippets list');
+};
+
+const countVersions = (records) => {
+  const counts = {};
+  for (const record of records) {
+    const version = record && typeof record === 'object' ? getSchemaVersion(record) ?? 'unknown' : 'unknown';
+    counts[version] = (counts[version] ?? 0) + 1;
+  }
+  return Object.entries(counts).map(([version, count]) => `v${version}: ${count}`).join(', ');
+};
+
+const validateFile = (file) => {
+  let { records, wrap } = readDatasetFile(file);
+  console.log(`\n📄 ${file}: ${records.length} records (${countVersions(records)})`);
+
+  if (values.migrate) {
+    const outdated = records.filter(record => record && typeof record === 'object' && (getSchemaVersion(record) ?? Infinity) < SNIPPET_SCHEMA_VERSION).length;
+    records = records.map(record => (record && typeof record === 'object' ? migrateRecord(record) : record));
+    fs.writeFileSync(file, JSON.stringify(wrap(records), null, 2));
+    console.log(`🔄 Migrated ${outdated} records to version ${SNIPPET_SCHEMA_VERSION}`);
+  }
+
+  const invalid = validateDataset(records);
+  if (invalid.length === 0) {
+    console.log(`✅ All records match schema version ${SNIPPET_SCHEMA_VERSION}`);
+    return true;
+  }
+
+  console.log(`❌ ${invalid.length} invalid records:`);
+  for (const { index, objectID, issues } of invalid.slice(0, limit)) {
+    console.log(`   #${index}${objectID ? ` ${objectID}` : ''}`);
+    for (const issue of issues) console.log(`      - ${issue}`);
+  }
+  if (invalid.length > limit) {
+    console.log(`   ... and ${invalid.length - limit} more (--limit to show more)`);
+  }
+  return false;
+};
+
+let valid = true;
+for (const file of files) {
+  try {
+    valid = validateFile(file) && valid;
+  } catch (err) {
+    console.error(`❌ Could not read ${file}: ${err.message}`);
+    valid = false;
+  }
+}
+if (!valid) {
+  if (!values.migrate) console.log('\nRecords of older versions can be upgraded with --migrate.');
+  process.exitCode = 1;
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Sparkles } from "lucide-react";
+import { isWebUrl } from "../lib/utils";
+
+interface Citation {
+  objectID: string;
+  title: string;
+  url?: string;
+}
+
+interface ResultSummary {
+  summary: string;
+  suggestions: string[];
+  insights: { text: string; citations: Citation[] }[];
+}
+
+interface ResultSummaryPanelProps {
+  query: string;
+  // objectIDs of the hits on screen, in display order
+  objectIDs: string[];
+  onSuggestionSelect: (query: string) => void;
+}
+
+const FETCH_DELAY_MS = 300;
+
+// Collapsible AI summary of the current results, above the hit list. It is
+// only requested while the panel is open, and again when the results change.
+export default function ResultSummaryPanel({
+  query,
+  objectIDs,
+  onSuggestionSelect,
+}: ResultSummaryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<ResultSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resultKey = objectIDs.join(",");
+
+  useEffect(() => {
+    if (!isOpen || !query.trim() || !resultKey) {
+      setSummary(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ q: query });
+      for (const objectID of resultKey.split(",")) {
+        params.append("objectID", objectID);
+      }
+      try {
+        const response = await fetch(`/api/summary?${params}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setSummary(data);
+      } catch (fetchError) {
+        if ((fetchError as Error).name === "AbortError") return;
+        console.error("Error fetching result summary:", fetchError);
+        setError("Couldn't summarize these results.");
+      }
+      setIsLoading(false);
+    }, FETCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, query, resultKey]);
+
+  if (!query.trim() || !resultKey) return null;
+
+  const Chevron = isOpen ? ChevronDown : ChevronRight;
+
+  return (
+    <div className="mb-4 rounded-lg border border-purple-200 bg-purple-50">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-controls="result-summary"
+        className="flex w-full items-center gap-2 px-4 py-3 text-left text-sm font-medium text-purple-900"
+      >
+        <Chevron className="w-4 h-4" />
+        <Sparkles className="w-4 h-4" />
+        AI summary of these results
+      </button>
+
+      {isOpen && (
+        <div
+          id="result-summary"
+          className="space-y-3 px-4 pb-4 text-sm text-gray-700"
+        >
+          {isLoading && <p className="text-gray-500">Summarizing…</p>}
+          {error && <p className="text-red-600">{error}</p>}
+          {summary && !isLoading && (
+            <>
+              <p>{summary.summary}</p>
+
+              {summary.insights.length > 0 && (
+                <ul className="list-disc space-y-1 pl-5">
+                  {summary.insights.map((insight, i) => (
+                    <li key={i}>
+                      {insight.text}
+                      {insight.citations.map((citation) => (
+                        <a
+                          key={citation.objectID}
+                          href={
+                            isWebUrl(citation.url) ? citation.url : undefined
+                          }
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={citation.title}
+                          className="ml-1 inline-block max-w-[12rem] truncate align-bottom rounded bg-white px-1.5 text-xs text-purple-700 border border-purple-200 hover:bg-purple-100"
+                        >
+                          {citation.title}
+                        </a>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {summary.suggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-500">Try:</span>
+                  {summary.suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      onClick={() => onSuggestionSelect(suggestion)}
+                      className="rounded-full border border-purple-200 bg-white px-2 py-0.5 text-xs text-purple-700 hover:bg-purple-100"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from "react";
+import { Clock, FileText, Tag } from "lucide-react";
+import { matchRecentQueries, type Suggestion } from "../lib/search/suggestions";
+
+interface SearchSuggestionsProps {
+  // The search box input, rendered by the InstantSearch searchBox widget
+  inputSelector: string;
+  query: string;
+  recentQueries: string[];
+  onSelect: (suggestion: Suggestion) => void;
+}
+
+const LIST_ID = "search-suggestions";
+const MAX_SUGGESTIONS = 8;
+const FETCH_DELAY_MS = 150;
+
+const suggestionIcons = {
+  query: Clock,
+  tag: Tag,
+  title: FileText,
+};
+
+// Autocomplete dropdown under the search box. The input belongs to the
+// searchBox widget, so keyboard and focus events are picked up by delegation.
+export default function SearchSuggestions({
+  inputSelector,
+  query,
+  recentQueries,
+  onSelect,
+}: SearchSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Fetch title and tag suggestions as the query changes
+  useEffect(() => {
+    if (!query.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const recent = matchRecentQueries(recentQueries, query);
+      try {
+        const response = await fetch(
+          `/api/suggest?q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        const data = response.ok ? await response.json() : { suggestions: [] };
+        setSuggestions(
+          [...recent, ...data.suggestions].slice(0, MAX_SUGGESTIONS)
+        );
+      } catch (error) {
+        if ((error as Error).name === "AbortError") return;
+        console.error("Error fetching suggestions:", error);
+        setSuggestions(recent);
+      }
+      setActiveIndex(-1);
+    }, FETCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, recentQueries]);
+
+  const isVisible = isOpen && suggestions.length > 0;
+
+  useEffect(() => {
+    const isSearchInput = (target: EventTarget | null) =>
+      target instanceof HTMLElement && target.matches(inputSelector);
+
+    const handleInput = (event: Event) => {
+      if (isSearchInput(event.target)) setIsOpen(true);
+    };
+
+    const handleFocusOut = (event: Event) => {
+      if (isSearchInput(event.target)) setIsOpen(false);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isSearchInput(event.target) || !isVisible) return;
+
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        // -1 is the text typed so far
+        setActiveIndex((index) => {
+          const next = index + step;
+          if (next < -1) return suggestions.length - 1;
+          return next >= suggestions.length ? -1 : next;
+        });
+      } else if (event.key === "Enter" && activeIndex >= 0) {
+        event.preventDefault();
+        setIsOpen(false);
+        onSelect(suggestions[activeIndex]);
+      } else if (event.key === "Escape") {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("input", handleInput);
+    document.addEventListener("focusout", handleFocusOut);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("input", handleInput);
+      document.removeEventListener("focusout", handleFocusOut);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [inputSelector, isVisible, suggestions, activeIndex, onSelect]);
+
+  // Combobox semantics for screen readers
+  useEffect(() => {
+    const input = document.querySelector(inputSelector);
+    if (!input) return;
+    input.setAttribute("role", "combobox");
+    input.setAttribute("aria-autocomplete", "list");
+    input.setAttribute("aria-controls", LIST_ID);
+    input.setAttribute("aria-expanded", String(isVisible));
+    if (isVisible && activeIndex >= 0) {
+      input.setAttribute("aria-activedescendant", `${LIST_ID}-${activeIndex}`);
+    } else {
+      input.removeAttribute("aria-activedescendant");
+    }
+  }, [inputSelector, isVisible, activeIndex]);
+
+  if (!isVisible) return null;
+
+  return (
+    <ul
+      id={LIST_ID}
+      role="listbox"
+      className="absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-lg border bg-white shadow-lg"
+    >
+      {suggestions.map((suggestion, index) => {
+        const Icon = suggestionIcons[suggestion.type];
+        return (
+          <li
+            key={`${suggestion.type}-${suggestion.value}`}
+            id={`${LIST_ID}-${index}`}
+            role="option"
+            aria-selected={index === activeIndex}
+            // mousedown keeps focus in the search box
+            onMouseDown={(event) => {
+              event.preventDefault();
+              setIsOpen(false);
+              onSelect(suggestion);
+            }}
+            onMouseEnter={() => setActiveIndex(index)}
+            className={`flex cursor-pointer items-center gap-3 px-4 py-2 text-sm ${
+              index === activeIndex
+                ? "bg-blue-50 text-blue-700"
+                : "text-gray-700"
+            }`}
+          >
+            <Icon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            <span className="flex-1 truncate">{suggestion.value}</span>
+            {suggestion.type === "tag" && (
+              <span className="text-xs text-gray-500">
+                tag{suggestion.count ? ` · ${suggestion.count}` : ""}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
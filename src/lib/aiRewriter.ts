@@ -0,0 +1,315 @@
+// LLM query rewriter for AI-powered search enhancement
+import { truncateAtWord } from "./content";
+import { getLlmProvider, type LlmProvider } from "./llm";
+import { delimit, escapePromptText, JSON_RESPONSE_RULES } from "./llm/prompt";
+import {
+  arrayOf,
+  numberField,
+  objectOf,
+  parseJsonResponse,
+  stringField,
+  withDefault,
+} from "./llm/schema";
+import { getFacetAttribute } from "./search/queryParser";
+import { toPlainText } from "./search/text";
+import type { Snippet } from "./snippet";
+
+// Both functions take an optional LlmProvider, e.g. a MockLlmProvider, and
+// use the one configured by LLM_PROVIDER otherwise. Model output is checked
+// against a schema; anything else falls back to a neutral answer.
+
+const MAX_QUERY_LENGTH = 200;
+
+const rewriteSchema = objectOf({
+  rewrittenQuery: stringField({ minLength: 1, maxLength: MAX_QUERY_LENGTH }),
+  explanation: withDefault(stringField({ maxLength: 300 }), ""),
+  suggestedFilters: withDefault(
+    arrayOf(stringField({ maxLength: 100 }), { maxItems: 10 }),
+    []
+  ),
+  confidence: numberField({ min: 0, max: 1 }),
+});
+
+const analysisSchema = objectOf({
+  summary: stringField({ maxLength: 1000 }),
+  suggestions: withDefault(
+    arrayOf(stringField({ maxLength: 200 }), { maxItems: 10 }),
+    []
+  ),
+  insights: withDefault(
+    arrayOf(
+      objectOf({
+        text: stringField({ minLength: 1, maxLength: 300 }),
+        // 1-based positions in the <search_results> list
+        citations: withDefault(arrayOf(numberField(), { maxItems: 10 }), []),
+      }),
+      { maxItems: 10 }
+    ),
+    []
+  ),
+});
+
+// Hits described to the model, and roughly how many tokens they may use
+export const DEFAULT_ANALYSIS_HITS = 8;
+export const DEFAULT_ANALYSIS_TOKEN_BUDGET = 1500;
+// Upper bound for a single hit's snippet, so one long post can't crowd out the rest
+const MAX_SNIPPET_CHARS = 600;
+// Rough size of a token in characters of English text or code
+const CHARS_PER_TOKEN = 4;
+
+export interface RewriteContext {
+  // Known facet values by attribute, e.g. { tags: ["react"], source: ["dev.to"] }
+  availableFilters?: Record<string, string[]>;
+}
+
+export interface QueryRewriteResult {
+  rewrittenQuery: string;
+  explanation: string;
+  // Suggested filters that name a known facet value, keyed by attribute
+  suggestedFilters: Record<string, string[]>;
+  confidence: number;
+}
+
+export type AnalyzedHit = Pick<
+  Snippet,
+  "objectID" | "title" | "tags" | "source" | "snippet"
+>;
+
+export interface ResultInsight {
+  text: string;
+  // objectIDs of the hits supporting the insight
+  citations: string[];
+}
+
+export interface ResultAnalysis {
+  summary: string;
+  suggestions: string[];
+  insights: ResultInsight[];
+}
+
+export interface AnalysisOptions {
+  maxHits?: number;
+  tokenBudget?: number;
+}
+
+// Describes the top hits as numbered <hit> entries, stopping when the token
+// budget runs out. Returns the hits that made it in, in citation order.
+export const buildResultsContext = (
+  hits: AnalyzedHit[],
+  {
+    maxHits = DEFAULT_ANALYSIS_HITS,
+    tokenBudget = DEFAULT_ANALYSIS_TOKEN_BUDGET,
+  }: AnalysisOptions = {}
+): { context: string; included: AnalyzedHit[] } => {
+  let remaining = tokenBudget * CHARS_PER_TOKEN;
+  const entries: string[] = [];
+  const included: AnalyzedHit[] = [];
+
+  for (const hit of hits.slice(0, maxHits)) {
+    const header = [
+      `<hit id="${included.length + 1}">`,
+      `title: ${escapePromptText(hit.title, 200)}`,
+      `source: ${escapePromptText(hit.source, 50)}`,
+      `tags: ${escapePromptText(hit.tags.join(", "), 200)}`,
+    ].join("\n");
+    const footer = "</hit>";
+    const room = Math.min(
+      MAX_SNIPPET_CHARS,
+      remaining - header.length - footer.length - 20
+    );
+    // Not worth including a hit with hardly any of its text
+    if (room < 80) break;
+
+    const snippet = escapePromptText(
+      truncateAtWord(toPlainText(hit.snippet), room),
+      room + 50
+    );
+    const entry = `${header}\nsnippet: ${snippet}\n${footer}`;
+    entries.push(entry);
+    included.push(hit);
+    remaining -= entry.length;
+  }
+
+  return {
+    context: `<search_results>\n${entries.join("\n")}\n</search_results>`,
+    included,
+  };
+};
+
+// Keeps only suggestions naming a known facet value, spelled the way the
+// facet spells it. Accepts "react", "tag:react" or "source:dev.to"; bare
+// values are tried against each attribute in order.
+export const clampSuggestedFilters = (
+  suggestedFilters: string[],
+  availableFilters: Record<string, string[]>
+): Record<string, string[]> => {
+  const clamped: Record<string, string[]> = {};
+  for (const suggestion of suggestedFilters) {
+    const separator = suggestion.indexOf(":");
+    const operator =
+      separator > 0 ? getFacetAttribute(suggestion.slice(0, separator)) : "";
+    const value = (operator ? suggestion.slice(separator + 1) : suggestion)
+      .trim()
+      .toLowerCase();
+    const attributes = operator ? [operator] : Object.keys(availableFilters);
+
+    for (const attribute of attributes) {
+      const match = availableFilters[attribute]?.find(
+        (facetValue) => facetValue.toLowerCase() === value
+      );
+      if (match) {
+        if (!clamped[attribute]?.includes(match)) {
+          clamped[attribute] = [...(clamped[attribute] ?? []), match];
+        }
+        break;
+      }
+    }
+  }
+  return clamped;
+};
+
+const fallbackRewrite = (
+  originalQuery: string,
+  explanation: string
+): QueryRewriteResult => ({
+  rewrittenQuery: originalQuery,
+  explanation,
+  suggestedFilters: {},
+  confidence: 0.5,
+});
+
+export async function rewriteQuery(
+  originalQuery: string,
+  context: RewriteContext = {},
+  provider?: LlmProvider
+): Promise<QueryRewriteResult> {
+  try {
+    const availableFilters = context.availableFilters ?? {};
+    const prompt = `You are a search query optimization expert. Your task is to rewrite the user's query to improve search results while maintaining the original intent.
+
+Original Query:
+${delimit("user_query", originalQuery, MAX_QUERY_LENGTH)}
+
+Filters that exist in the index, by attribute:
+${delimit("available_filters", JSON.stringify(availableFilters), 4000)}
+
+Please provide:
+1. A rewritten query that's optimized for keyword search: 1 to 4 words, since every word must appear in a matching result, without repeating what the filters cover
+2. A brief explanation of the changes made
+3. Filters that might be helpful, only from the available filters, written as "attribute:value"
+
+Format your response as JSON:
+{
+  "rewrittenQuery": "optimized query here",
+  "explanation": "brief explanation",
+  "suggestedFilters": ["tags:react", "source:dev.to"],
+  "confidence": 0.95
+}`;
+
+    const response = await (provider ?? getLlmProvider()).complete({
+      system: JSON_RESPONSE_RULES,
+      prompt,
+      maxTokens: 500,
+    });
+
+    if (!response.text) {
+      return fallbackRewrite(originalQuery, "No text response from AI");
+    }
+    const parsed = parseJsonResponse(response.text, rewriteSchema);
+    if (!parsed.ok) {
+      console.error("Invalid AI rewrite response:", parsed.error);
+      return fallbackRewrite(originalQuery, "Failed to parse AI response");
+    }
+    return {
+      ...parsed.value,
+      suggestedFilters: clampSuggestedFilters(
+        parsed.value.suggestedFilters,
+        availableFilters
+      ),
+    };
+  } catch (error) {
+    console.error("AI query rewriter error:", error);
+    return fallbackRewrite(originalQuery, "AI service unavailable");
+  }
+}
+
+const emptyAnalysis = (summary: string): ResultAnalysis => ({
+  summary,
+  suggestions: [],
+  insights: [],
+});
+
+export async function enhanceSearchResults(
+  results: AnalyzedHit[],
+  originalQuery: string,
+  provider?: LlmProvider,
+  options: AnalysisOptions = {}
+): Promise<ResultAnalysis> {
+  try {
+    const { context, included } = buildResultsContext(results, options);
+    const prompt = `You are analyzing search results to provide insights and suggestions.
+
+Original Query:
+${delimit("user_query", originalQuery, MAX_QUERY_LENGTH)}
+Number of Results: ${results.length}
+
+Top results, numbered by id:
+${context}
+
+Using only the results above, please provide:
+1. A brief summary of what was found
+2. Suggestions for refining the search, written as search queries
+3. Patterns or insights from the results, each citing the ids of the results that support it
+
+Format your response as JSON:
+{
+  "summary": "brief summary",
+  "suggestions": ["refined query 1", "refined query 2"],
+  "insights": [{ "text": "insight", "citations": [1, 3] }]
+}`;
+
+    const response = await (provider ?? getLlmProvider()).complete({
+      system: JSON_RESPONSE_RULES,
+      prompt,
+      maxTokens: 600,
+    });
+
+    if (!response.text) {
+      return emptyAnalysis("No analysis available");
+    }
+    const parsed = parseJsonResponse(response.text, analysisSchema);
+    if (!parsed.ok) {
+      console.error("Invalid AI analysis response:", parsed.error);
+      return emptyAnalysis("Unable to analyze results");
+    }
+
+    // Citations of results the model was not shown are dropped
+    const toObjectIDs = (citations: number[]) =>
+      Array.from(
+        new Set(
+          citations
+            .filter(
+              (id) => Number.isInteger(id) && id >= 1 && id <= included.length
+            )
+            .map((id) => included[id - 1].objectID)
+        )
+      );
+    return {
+      ...parsed.value,
+      insights: parsed.value.insights.map(({ text, citations }) => ({
+        text,
+        citations: toObjectIDs(citations),
+      })),
+    };
+  } catch (error) {
+    console.error("AI result enhancement error:", error);
+    return emptyAnalysis("AI service unavailable");
+  }
+}
+
+const aiRewriter = {
+  rewriteQuery,
+  enhanceSearchResults,
+};
+
+export default aiRewriter;
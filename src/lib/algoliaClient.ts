@@ -0,0 +1,29 @@
+import { algoliasearch } from "algoliasearch";
+
+// Shared Algolia client factory. Credentials come from the NEXT_PUBLIC_ALGOLIA_*
+// variables so the same configuration works in the browser and API routes.
+
+export const getAlgoliaIndexName = (): string =>
+  process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME || "";
+
+export const isAlgoliaConfigured = (): boolean =>
+  Boolean(
+    process.env.NEXT_PUBLIC_ALGOLIA_APP_ID &&
+      process.env.NEXT_PUBLIC_ALGOLIA_SEARCH_API_KEY &&
+      process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME
+  );
+
+let searchClient: ReturnType<typeof algoliasearch> | null = null;
+
+export const getAlgoliaSearchClient = () => {
+  if (!isAlgoliaConfigured()) {
+    throw new Error("Algolia is not configured");
+  }
+  if (!searchClient) {
+    searchClient = algoliasearch(
+      process.env.NEXT_PUBLIC_ALGOLIA_APP_ID!,
+      process.env.NEXT_PUBLIC_ALGOLIA_SEARCH_API_KEY!
+    );
+  }
+  return searchClient;
+};
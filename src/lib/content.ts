@@ -0,0 +1,205 @@
+import { decode, escape } from "he";
+
+// Content normalization shared by the ingest pipeline and the corpus loader.
+// Descriptions arrive as plain text (dev.to, local notes) or HTML (most
+// feeds), as the adapter says; every record gets a plain-text snippetText
+// and an allow-list sanitized snippetHtml derived from them, so nothing
+// downstream has to strip or trust raw markup.
+
+// Characters of text kept in snippetText and snippetHtml
+export const SNIPPET_TEXT_LENGTH = 300;
+export const SNIPPET_HTML_TEXT_LENGTH = 600;
+
+// Elements dropped together with their content
+const DROPPED_ELEMENTS_PATTERN =
+  /<(script|style|iframe|object|embed|noscript|template|svg|math|head|title|button|form)\b[\s\S]*?<\/\1\s*>/gi;
+const COMMENT_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[|\]\]>|<![^>]*>|<\?[\s\S]*?\?>/g;
+
+// Elements whose boundaries separate words, e.g. "<li>one</li><li>two</li>"
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "br",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+// Everything else is unwrapped to its text
+const ALLOWED_ELEMENTS = new Set([
+  "a",
+  "b",
+  "blockquote",
+  "br",
+  "code",
+  "em",
+  "i",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "strong",
+  "ul",
+]);
+const VOID_ELEMENTS = new Set(["br"]);
+
+const SAFE_URL_PATTERN = /^(?:https?:|mailto:)/i;
+
+const TOKEN_PATTERN =
+  /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+
+const removeDroppedContent = (html: string): string =>
+  html.replace(COMMENT_PATTERN, "").replace(DROPPED_ELEMENTS_PATTERN, " ");
+
+// Cuts text to at most maxLength characters, at the last word boundary when
+// there is one in the second half, and marks the cut with an ellipsis
+export const truncateAtWord = (text: string, maxLength: number): string => {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut)
+    .trim()
+    .replace(/[\s,;:([{-]+$/, "")}…`;
+};
+
+// Plain text of an HTML fragment or entity-encoded text, on one line
+export const htmlToText = (html: string): string =>
+  decode(
+    removeDroppedContent(html).replace(
+      /<\/?([a-zA-Z][a-zA-Z0-9-]*)(?:[^>"']|"[^"]*"|'[^']*')*>/g,
+      (_tag, name: string) =>
+        BLOCK_ELEMENTS.has(name.toLowerCase()) ? " " : ""
+    )
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+
+const getSafeHref = (attributes: string): string | undefined => {
+  const match = attributes.match(
+    /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i
+  );
+  const href = decode(match?.[1] ?? match?.[2] ?? match?.[3] ?? "").trim();
+  return SAFE_URL_PATTERN.test(href) ? href : undefined;
+};
+
+// Rebuilds an HTML fragment from allow-listed elements only: attributes are
+// dropped except a safe link href, other elements are unwrapped, and text is
+// re-escaped. Text past maxTextLength is cut at a word boundary and the
+// elements still open are closed.
+export const sanitizeHtml = (
+  html: string,
+  maxTextLength = Infinity
+): string => {
+  const output: string[] = [];
+  const open: string[] = [];
+  let textLength = 0;
+
+  for (const match of Array.from(
+    removeDroppedContent(html).matchAll(TOKEN_PATTERN)
+  )) {
+    const [token, closing, rawName, attributes = ""] = match;
+    if (!rawName) {
+      // Whitespace is collapsed, except inside <pre>
+      let text = decode(token);
+      if (!open.includes("pre")) text = text.replace(/\s+/g, " ");
+      if (textLength + text.length > maxTextLength) {
+        const room = Math.max(0, maxTextLength - textLength);
+        output.push(escape(truncateAtWord(text, room)));
+        break;
+      }
+      textLength += text.length;
+      output.push(escape(text));
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    if (!ALLOWED_ELEMENTS.has(name)) {
+      if (BLOCK_ELEMENTS.has(name)) output.push(" ");
+      continue;
+    }
+    if (closing) {
+      const index = open.lastIndexOf(name);
+      if (index === -1) continue;
+      // Closes elements left open inside this one, e.g. "<p><b>text</p>"
+      while (open.length > index) output.push(`</${open.pop()}>`);
+    } else if (VOID_ELEMENTS.has(name)) {
+      output.push(`<${name}>`);
+    } else if (name === "a") {
+      const href = getSafeHref(attributes);
+      output.push(
+        href
+          ? `<a href="${escape(
+              href
+            )}" target="_blank" rel="nofollow noopener noreferrer">`
+          : "<a>"
+      );
+      open.push(name);
+    } else {
+      output.push(`<${name}>`);
+      open.push(name);
+    }
+  }
+
+  while (open.length > 0) output.push(`</${open.pop()}>`);
+  // Elements left empty by dropped content
+  return output
+    .join("")
+    .replace(/<(p|li|strong|b|em|i|code)>\s*<\/\1>/g, "")
+    .trim();
+};
+
+// Whether a description is an HTML fragment or plain text. Adapters know
+// it from their source: RSS descriptions are HTML, dev.to's are text.
+export type ContentFormat = "html" | "text";
+
+// For records stored without their format only: closing tags and line
+// breaks are markup, while a lone "<div>" in a title-like sentence is not
+export const guessContentFormat = (description: string): ContentFormat =>
+  /<\/[a-z][a-z0-9-]*\s*>|<br\s*\/?>/i.test(description) ? "html" : "text";
+
+// snippetText and snippetHtml of a record's description. Entities in plain
+// text are decoded and stay text ("Array&lt;string&gt;" is
+// "Array<string>"), escaped again in snippetHtml, never parsed as markup.
+export const normalizeSnippetContent = (
+  description: string,
+  format: ContentFormat
+): { snippetText: string; snippetHtml: string } => {
+  if (format === "html") {
+    return {
+      snippetText: truncateAtWord(htmlToText(description), SNIPPET_TEXT_LENGTH),
+      snippetHtml: sanitizeHtml(description, SNIPPET_HTML_TEXT_LENGTH),
+    };
+  }
+  const text = decode(description).replace(/\s+/g, " ").trim();
+  return {
+    snippetText: truncateAtWord(text, SNIPPET_TEXT_LENGTH),
+    snippetHtml: escape(truncateAtWord(text, SNIPPET_HTML_TEXT_LENGTH)),
+  };
+};
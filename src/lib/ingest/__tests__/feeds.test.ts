@@ -0,0 +1,234 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  detectFeedFormat,
+  feedItemToSnippet,
+  parseFeedItems,
+  type FeedItem,
+} from "../feeds";
+
+const readFixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, "fixtures", name), "utf-8");
+
+const parseFixture = (name: string): FeedItem[] =>
+  parseFeedItems(readFixture(name));
+
+describe("detectFeedFormat", () => {
+  it("tells the formats apart by content", () => {
+    assert.equal(detectFeedFormat(readFixture("rss.xml")), "rss");
+    assert.equal(detectFeedFormat(readFixture("atom.xml")), "atom");
+    assert.equal(detectFeedFormat(readFixture("feed.json")), "json");
+    assert.equal(detectFeedFormat("<html><body></body></html>"), null);
+  });
+
+  it("rejects documents that are not feeds", () => {
+    assert.throws(() => parseFeedItems("<html></html>"), /Not an RSS/);
+    assert.throws(
+      () => parseFeedItems('{"version": "1.0", "items": []}'),
+      /not a JSON Feed/
+    );
+  });
+});
+
+describe("RSS 2.0", () => {
+  const items = parseFixture("rss.xml");
+
+  it("reads items with a title and skips the rest", () => {
+    assert.deepEqual(
+      items.map((item) => item.title),
+      ["Building forms with React hooks", "TypeScript generics explained"]
+    );
+  });
+
+  it("reads ids, links, dates, authors and categories", () => {
+    assert.deepEqual(items[0], {
+      id: "post-101",
+      title: "Building forms with React hooks",
+      description:
+        "<p>Controlled inputs with <code>useState</code> and friends.</p>",
+      descriptionFormat: "html",
+      content:
+        '<link rel="canonical" href="https://dev.example.org/react-forms"><p>Full article body.</p>',
+      url: "https://www.blog.example.com/react-forms/?utm_source=rss",
+      canonicalUrl: "https://dev.example.org/react-forms",
+      categories: ["React", "Forms"],
+      publishedAt: "Tue, 05 Aug 2025 10:00:00 GMT",
+      author: "Ada Lovelace",
+    });
+  });
+
+  it("falls back to the link as id and to dc:date", () => {
+    assert.equal(items[1].id, "https://blog.example.com/generics");
+    assert.equal(items[1].publishedAt, "2025-07-01T08:30:00Z");
+    assert.equal(items[1].content, undefined);
+    assert.deepEqual(items[1].categories, []);
+  });
+
+  it("maps items to snippets", () => {
+    const [article, generics] = items.map((item) =>
+      feedItemToSnippet(item, "blog")
+    );
+    assert.equal(article.objectID, "blog-post-101");
+    assert.equal(article.url, "https://blog.example.com/react-forms");
+    assert.equal(article.canonicalUrl, "https://dev.example.org/react-forms");
+    assert.deepEqual(article.tags, ["React", "Forms"]);
+    assert.equal(article.publishedAt, "2025-08-05T10:00:00.000Z");
+    assert.equal(article.author, "Ada Lovelace");
+    assert.equal(
+      article.snippetText,
+      "Controlled inputs with useState and friends."
+    );
+    assert.equal(
+      article.snippetHtml,
+      "<p>Controlled inputs with <code>useState</code> and friends.</p>"
+    );
+
+    assert.equal(generics.objectID, "blog-https://blog.example.com/generics");
+    assert.equal(generics.publishedAt, "2025-07-01T08:30:00.000Z");
+    assert.equal(generics.author, "blog Author");
+    // Entity-encoded text in an HTML description stays text
+    assert.equal(
+      generics.snippetText,
+      "Why Array<string> is not string[] in every case"
+    );
+    assert.equal(
+      generics.snippetHtml,
+      "Why Array&lt;string&gt; is not string[] in every case"
+    );
+  });
+
+  it("infers tags from the title when an item has no categories", () => {
+    assert.deepEqual(feedItemToSnippet(items[1], "blog").tags, ["typescript"]);
+    assert.deepEqual(feedItemToSnippet(items[1], "blog", ["generics"]).tags, [
+      "generics",
+    ]);
+  });
+});
+
+describe("Atom", () => {
+  const items = parseFixture("atom.xml");
+
+  it("reads entries with their alternate and canonical links", () => {
+    assert.equal(items.length, 2);
+    assert.equal(items[0].id, "tag:example.com,2025:container-queries");
+    assert.equal(items[0].url, "https://example.com/container-queries");
+    assert.equal(
+      items[0].canonicalUrl,
+      "https://css.example.org/container-queries"
+    );
+    // A link without rel is the alternate one
+    assert.equal(items[1].url, "https://example.com/node-streams");
+  });
+
+  it("prefers the summary and falls back to the content", () => {
+    assert.equal(
+      items[0].description,
+      "<p>Components that adapt to their <em>container</em>.</p>"
+    );
+    assert.equal(items[0].descriptionFormat, "html");
+    assert.equal(items[0].content, "<p>The full article.</p>");
+
+    assert.equal(
+      items[1].description,
+      "Pipe a Readable<Buffer> into a <div>-free response"
+    );
+    assert.equal(items[1].descriptionFormat, "text");
+  });
+
+  it("reads published, then updated dates", () => {
+    assert.equal(items[0].publishedAt, "2025-08-09T09:15:00Z");
+    assert.equal(items[1].publishedAt, "2025-06-20T17:45:00Z");
+  });
+
+  it("maps terms to tags and falls back to the feed's author", () => {
+    const [queries, streams] = items.map((item) =>
+      feedItemToSnippet(item, "atom")
+    );
+    assert.deepEqual(queries.tags, ["css", "layout"]);
+    assert.equal(queries.author, "Grace Hopper");
+    assert.equal(
+      queries.snippetText,
+      "Components that adapt to their container."
+    );
+
+    assert.deepEqual(streams.tags, ["web"]);
+    assert.equal(streams.author, "Feed Author");
+    assert.equal(
+      streams.snippetText,
+      "Pipe a Readable<Buffer> into a <div>-free response"
+    );
+    assert.equal(
+      streams.snippetHtml,
+      "Pipe a Readable&lt;Buffer&gt; into a &lt;div&gt;-free response"
+    );
+  });
+});
+
+describe("JSON Feed", () => {
+  const items = parseFixture("feed.json");
+
+  it("reads items with a title and skips the rest", () => {
+    assert.deepEqual(
+      items.map((item) => item.id),
+      ["1", "2", "3"]
+    );
+  });
+
+  it("falls back from summary to content_html to content_text", () => {
+    assert.deepEqual(
+      items.map(({ description, descriptionFormat }) => ({
+        description,
+        descriptionFormat,
+      })),
+      [
+        {
+          description: "How to center a <div> while the data loads",
+          descriptionFormat: "text",
+        },
+        {
+          description: "<p>Native <code>import</code> without a bundler.</p>",
+          descriptionFormat: "html",
+        },
+        { description: "Plain text & nothing else", descriptionFormat: "text" },
+      ]
+    );
+  });
+
+  it("reads urls, dates and authors", () => {
+    assert.equal(items[0].url, "https://json.example.com/posts/1");
+    assert.equal(items[0].canonicalUrl, "https://nextjs.example.org/fetching");
+    assert.equal(items[0].publishedAt, "2025-08-01T00:00:00Z");
+    assert.equal(items[0].author, "Linus");
+
+    assert.equal(
+      items[1].url,
+      "https://elsewhere.example.com/javascript-modules"
+    );
+    assert.equal(items[1].publishedAt, "2025-07-15T12:00:00+02:00");
+    assert.equal(items[1].author, "Margaret");
+
+    assert.equal(items[2].publishedAt, undefined);
+    assert.equal(items[2].author, "Feed Team");
+  });
+
+  it("maps items to snippets", () => {
+    const [nextjs, modules, design] = items.map((item) =>
+      feedItemToSnippet(item, "json")
+    );
+    assert.deepEqual(nextjs.tags, ["nextjs", "data"]);
+    assert.equal(
+      nextjs.snippetHtml,
+      "How to center a &lt;div&gt; while the data loads"
+    );
+
+    assert.deepEqual(modules.tags, ["javascript"]);
+    assert.equal(modules.publishedAt, "2025-07-15T10:00:00.000Z");
+    assert.equal(modules.snippetText, "Native import without a bundler.");
+
+    assert.deepEqual(design.tags, ["web", "design"]);
+    assert.equal(design.publishedAt, undefined);
+    assert.equal(design.snippetHtml, "Plain text &amp; nothing else");
+  });
+});
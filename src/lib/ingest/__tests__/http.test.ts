@@ -0,0 +1,237 @@
+import axios from "axios";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, describe, it, mock } from "node:test";
+import {
+  HttpClient,
+  HttpError,
+  parseRetryAfter,
+  type HttpClientOptions,
+} from "../http";
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  data?: string;
+}
+
+// Answers axios.get with the responder's responses and records the requests
+const stubAxios = (
+  responder: (url: string) => StubResponse | Promise<StubResponse>
+) => {
+  const requests: { url: string; at: number }[] = [];
+  mock.method(axios, "get", async (url: string) => {
+    requests.push({ url, at: Date.now() });
+    const { status, headers = {}, data = "" } = await responder(url);
+    return { status, headers, data };
+  });
+  return requests;
+};
+
+const createClient = (options: Partial<HttpClientOptions>) =>
+  new HttpClient({
+    respectRobotsTxt: false,
+    requestDelayMs: 0,
+    retryDelayMs: 10,
+    log: () => {},
+    ...options,
+  });
+
+// Gap between two requests, give or take the timers' millisecond rounding
+const getGap = (requests: { at: number }[], index: number) =>
+  requests[index].at - requests[index - 1].at + 2;
+
+afterEach(() => mock.restoreAll());
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-08-01T12:00:00Z");
+
+  it("reads seconds", () => {
+    assert.equal(parseRetryAfter("120", now), 120_000);
+    assert.equal(parseRetryAfter("0", now), 0);
+  });
+
+  it("reads HTTP dates relative to now", () => {
+    assert.equal(parseRetryAfter("Fri, 01 Aug 2025 12:00:30 GMT", now), 30_000);
+    // A date in the past means right away
+    assert.equal(parseRetryAfter("Fri, 01 Aug 2025 11:00:00 GMT", now), 0);
+  });
+
+  it("ignores missing and invalid values", () => {
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+    assert.equal(parseRetryAfter(" ", now), undefined);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+  });
+});
+
+describe("HttpClient retries", () => {
+  it("retries 429 and 5xx responses with exponential backoff", async () => {
+    let calls = 0;
+    const requests = stubAxios(() =>
+      ++calls < 3
+        ? { status: calls === 1 ? 429 : 503 }
+        : { status: 200, data: "ok" }
+    );
+    const response = await createClient({ retryDelayMs: 20 }).get(
+      "https://a.example.com/feed"
+    );
+    assert.equal(response.body, "ok");
+    assert.equal(requests.length, 3);
+    assert.ok(getGap(requests, 1) >= 20);
+    assert.ok(getGap(requests, 2) >= 40);
+  });
+
+  it("waits for Retry-After instead of the backoff", async () => {
+    let calls = 0;
+    const requests = stubAxios(() =>
+      ++calls === 1
+        ? { status: 429, headers: { "retry-after": "0" } }
+        : { status: 200 }
+    );
+    await createClient({ retryDelayMs: 5000 }).get("https://a.example.com/");
+    assert.equal(requests.length, 2);
+  });
+
+  it("retries network failures", async () => {
+    let calls = 0;
+    const requests = stubAxios(() => {
+      if (++calls === 1) throw new Error("socket hang up");
+      return { status: 200 };
+    });
+    await createClient({}).get("https://a.example.com/");
+    assert.equal(requests.length, 2);
+  });
+
+  it("doesn't retry other 4xx responses", async () => {
+    const requests = stubAxios(() => ({ status: 404 }));
+    await assert.rejects(
+      createClient({}).get("https://a.example.com/missing"),
+      (error) => error instanceof HttpError && error.status === 404
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const requests = stubAxios(() => ({ status: 500 }));
+    await assert.rejects(
+      createClient({ maxRetries: 2 }).get("https://a.example.com/"),
+      (error) => error instanceof HttpError && error.status === 500
+    );
+    assert.equal(requests.length, 3);
+  });
+
+  it("fails instead of waiting for a long Retry-After", async () => {
+    const requests = stubAxios(() => ({
+      status: 503,
+      headers: { "retry-after": "3600" },
+    }));
+    await assert.rejects(
+      createClient({ maxRetryDelayMs: 1000 }).get("https://a.example.com/"),
+      (error) => error instanceof HttpError && error.status === 503
+    );
+    assert.equal(requests.length, 1);
+  });
+});
+
+describe("HttpClient host limits", () => {
+  it("spaces out and serializes requests to a host", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const requests = stubAxios(async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { status: 200 };
+    });
+    const client = createClient({ requestDelayMs: 30 });
+    await Promise.all(
+      [1, 2, 3].map((page) => client.get(`https://a.example.com/${page}`))
+    );
+    assert.equal(maxActive, 1);
+    assert.ok(getGap(requests, 1) >= 30);
+    assert.ok(getGap(requests, 2) >= 30);
+  });
+
+  it("limits hosts separately and applies per-host overrides", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const requests = stubAxios(async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      active--;
+      return { status: 200 };
+    });
+    const client = createClient({
+      requestDelayMs: 1000,
+      hosts: { "b.example.com": { concurrency: 2, requestDelayMs: 0 } },
+    });
+    await Promise.all([
+      client.get("https://a.example.com/1"),
+      client.get("https://b.example.com/1"),
+      client.get("https://b.example.com/2"),
+    ]);
+    assert.equal(requests.length, 3);
+    assert.equal(maxActive, 3);
+  });
+});
+
+describe("HttpClient robots.txt", () => {
+  it("never requests disallowed URLs", async () => {
+    const requests = stubAxios((url) =>
+      url.endsWith("/robots.txt")
+        ? { status: 200, data: "User-agent: *\nDisallow: /private" }
+        : { status: 200 }
+    );
+    const client = createClient({ respectRobotsTxt: true });
+    await assert.rejects(
+      client.get("https://a.example.com/private/feed"),
+      /Disallowed by https:\/\/a.example.com\/robots.txt/
+    );
+    await client.get("https://a.example.com/feed");
+    assert.deepEqual(
+      requests.map(({ url }) => url),
+      ["https://a.example.com/robots.txt", "https://a.example.com/feed"]
+    );
+  });
+
+  it("allows everything when robots.txt is missing", async () => {
+    stubAxios((url) => ({ status: url.endsWith("/robots.txt") ? 404 : 200 }));
+    const client = createClient({ respectRobotsTxt: true });
+    await client.get("https://a.example.com/private/feed");
+  });
+});
+
+describe("HttpClient fixtures", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "http-fixtures-"));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("replays a recorded response without the network", async () => {
+    stubAxios(() => ({
+      status: 200,
+      headers: { "content-type": "application/rss+xml", etag: '"v1"' },
+      data: "<rss></rss>",
+    }));
+    const url = "https://a.example.com/feed.xml";
+    await createClient({ fixtures: { mode: "record", dir } }).getFeed(url, {
+      etag: '"v0"',
+    });
+    mock.restoreAll();
+
+    const requests = stubAxios(() => {
+      throw new Error("network used in replay mode");
+    });
+    const replay = createClient({ fixtures: { mode: "replay", dir } });
+    assert.deepEqual(await replay.getFeed(url), {
+      body: "<rss></rss>",
+      etag: '"v1"',
+      lastModified: undefined,
+    });
+    await assert.rejects(
+      replay.get("https://a.example.com/other.xml"),
+      /No recorded response/
+    );
+    assert.equal(requests.length, 0);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getProductToken, isAllowedByRobots, parseRobotsTxt } from "../robots";
+
+const USER_AGENT = "SnippetSearchBot/1.0 (+https://example.com/bot)";
+
+const isAllowed = (text: string, path: string, userAgent = USER_AGENT) =>
+  isAllowedByRobots(parseRobotsTxt(text, userAgent), path);
+
+describe("parseRobotsTxt", () => {
+  const robots = [
+    "User-agent: *",
+    "Disallow: /private",
+    "Crawl-delay: 1",
+    "",
+    "# Our own group",
+    "User-agent: OtherBot",
+    "User-agent: SnippetSearchBot",
+    "Disallow: /drafts",
+    "Crawl-delay: 5",
+  ].join("\n");
+
+  it("matches groups by product token", () => {
+    assert.equal(getProductToken(USER_AGENT), "snippetsearchbot");
+    assert.ok(!isAllowed(robots, "/drafts/1"));
+    // The "*" group doesn't apply when a group names the crawler
+    assert.ok(isAllowed(robots, "/private/1"));
+    assert.equal(parseRobotsTxt(robots, USER_AGENT).crawlDelayMs, 5000);
+  });
+
+  it("falls back to the * group", () => {
+    assert.ok(!isAllowed(robots, "/private/1", "UnknownBot/2.0"));
+    assert.ok(isAllowed(robots, "/drafts/1", "UnknownBot/2.0"));
+    assert.equal(parseRobotsTxt(robots, "UnknownBot").crawlDelayMs, 1000);
+  });
+
+  it("allows everything without rules or with an empty Disallow", () => {
+    assert.ok(isAllowed("", "/anything"));
+    assert.ok(isAllowed("User-agent: *\nDisallow:", "/anything"));
+  });
+});
+
+describe("isAllowedByRobots", () => {
+  it("lets the longest matching rule decide", () => {
+    const robots = "User-agent: *\nDisallow: /blog\nAllow: /blog/posts";
+    assert.ok(!isAllowed(robots, "/blog/drafts"));
+    assert.ok(isAllowed(robots, "/blog/posts/1"));
+    assert.ok(isAllowed(robots, "/about"));
+  });
+
+  it("prefers Allow when rules are equally long", () => {
+    assert.ok(
+      isAllowed("User-agent: *\nDisallow: /feed\nAllow: /feed", "/feed")
+    );
+  });
+
+  it("supports wildcards and the end anchor", () => {
+    const robots = "User-agent: *\nDisallow: /*.json$\nDisallow: /*?page=";
+    assert.ok(!isAllowed(robots, "/api/posts.json"));
+    assert.ok(isAllowed(robots, "/api/posts.json?v=2"));
+    assert.ok(!isAllowed(robots, "/posts?page=2"));
+  });
+});
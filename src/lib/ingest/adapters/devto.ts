@@ -0,0 +1,197 @@
+import { normalizeSnippetContent } from "../../content";
+import type { Snippet } from "../../snippet";
+import { isAfter, latestDate } from "../checkpoints";
+import { codeBlocksToSnippets, extractMarkdownCodeBlocks } from "../codeBlocks";
+import { getErrorMessage } from "../http";
+import { canonicalizeUrl } from "../urls";
+import type {
+  AdapterResult,
+  DevToSourceConfig,
+  IngestContext,
+  SourceAdapter,
+} from "../types";
+
+const DEVTO_API_URL = "https://dev.to/api/articles";
+const DEFAULT_PER_TAG = 15;
+const DEFAULT_MAX_PAGES = 3;
+
+// Fields used from the dev.to articles API
+export interface DevToArticle {
+  id: number;
+  title?: string;
+  description?: string;
+  url?: string;
+  // The article's own URL unless it was first published elsewhere
+  canonical_url?: string;
+  tag_list?: string[] | string;
+  published_at?: string;
+  reading_time_minutes?: number;
+  user?: { name?: string };
+  // Only returned by the single article endpoint
+  body_markdown?: string;
+}
+
+export const devToArticleToSnippet = (
+  article: DevToArticle
+): Snippet | null => {
+  if (!article.id || !article.title) return null;
+  const url = article.url && canonicalizeUrl(article.url);
+  const canonicalUrl =
+    article.canonical_url && canonicalizeUrl(article.canonical_url);
+  const snippet: Snippet = {
+    objectID: `devto-${article.id}`,
+    title: article.title,
+    snippet: article.description || "",
+    preview: article.description || "",
+    ...normalizeSnippetContent(article.description || "", "text"),
+    url,
+    tags: Array.isArray(article.tag_list)
+      ? article.tag_list
+      : (article.tag_list ?? "")
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+    source: "dev.to",
+    publishedAt: article.published_at,
+    readingTime: article.reading_time_minutes,
+    author: article.user?.name,
+  };
+  if (canonicalUrl && canonicalUrl !== url) snippet.canonicalUrl = canonicalUrl;
+  return snippet;
+};
+
+// Latest articles for each configured tag, from the public dev.to API.
+// Pages are read newest first until one reaches an article published before
+// the tag's checkpoint. Pages left unread when the page budget runs out are
+// picked up by later runs from the saved resumePage. The list endpoint has
+// no article bodies, so each article not seen before is fetched again on its
+// own for its code blocks.
+export class DevToAdapter implements SourceAdapter {
+  readonly source = "dev.to";
+
+  constructor(private readonly config: DevToSourceConfig) {}
+
+  async fetch(context: IngestContext): Promise<AdapterResult> {
+    const result: AdapterResult = { snippets: [], fetched: 0, failed: 0 };
+
+    const withBodies = this.config.codeBlocks ?? true;
+    // Articles tagged with several configured tags are only fetched once
+    const bodiesFetched = new Set<number>();
+
+    const fetchCodeBlocks = async (article: DevToArticle, parent: Snippet) => {
+      if (bodiesFetched.has(article.id)) return;
+      bodiesFetched.add(article.id);
+      try {
+        const { body_markdown } = await context.http.getJson<DevToArticle>(
+          `${DEVTO_API_URL}/${article.id}`
+        );
+        result.snippets.push(
+          ...codeBlocksToSnippets(
+            parent,
+            extractMarkdownCodeBlocks(body_markdown ?? "")
+          )
+        );
+      } catch (error) {
+        result.failed++;
+        context.log(
+          `Error fetching dev.to article ${article.id}: ${getErrorMessage(
+            error
+          )}`
+        );
+      }
+    };
+
+    // isNew picks the articles whose bodies are fetched
+    const fetchPage = async (
+      tag: string,
+      page: number,
+      isNew: (article: DevToArticle) => boolean
+    ) => {
+      const articles = await context.http.getJson<DevToArticle[]>(
+        DEVTO_API_URL,
+        {
+          tag,
+          page,
+          per_page: this.config.perTag ?? DEFAULT_PER_TAG,
+        }
+      );
+      result.fetched += articles.length;
+      for (const article of articles) {
+        const snippet = devToArticleToSnippet(article);
+        if (!snippet) continue;
+        result.snippets.push(snippet);
+        if (withBodies && isNew(article)) {
+          await fetchCodeBlocks(article, snippet);
+        }
+      }
+      return articles;
+    };
+
+    for (const tag of this.config.tags) {
+      const checkpoint = context.state.devto[tag] ?? {};
+      const maxPages = this.config.maxPages ?? DEFAULT_MAX_PAGES;
+      let pagesLeft = maxPages;
+      let lastPublishedAt = checkpoint.lastPublishedAt;
+      let { resumePage, resumeUntil } = checkpoint;
+      let count = 0;
+
+      try {
+        // New articles, until caught up with the checkpoint
+        let caughtUp = false;
+        let page = 1;
+        while (!caughtUp && pagesLeft > 0) {
+          const articles = await fetchPage(tag, page, (article) =>
+            isAfter(article.published_at, checkpoint.lastPublishedAt)
+          );
+          pagesLeft--;
+          count += articles.length;
+          for (const article of articles) {
+            lastPublishedAt = latestDate(lastPublishedAt, article.published_at);
+          }
+          caughtUp =
+            articles.length === 0 ||
+            articles.some(
+              (article) =>
+                !isAfter(article.published_at, checkpoint.lastPublishedAt)
+            );
+          page++;
+        }
+        // Out of budget with unread new pages: continue there next time. The
+        // first run of a tag just takes its latest pages.
+        if (!caughtUp && checkpoint.lastPublishedAt) {
+          resumePage = page;
+          resumeUntil = resumeUntil ?? checkpoint.lastPublishedAt;
+        }
+
+        // Older pages a previous run didn't get to
+        while (caughtUp && resumePage && pagesLeft > 0) {
+          const articles = await fetchPage(tag, resumePage, (article) =>
+            isAfter(article.published_at, resumeUntil)
+          );
+          pagesLeft--;
+          count += articles.length;
+          const gapClosed =
+            articles.length === 0 ||
+            articles.some(
+              (article) => !isAfter(article.published_at, resumeUntil)
+            );
+          resumePage = gapClosed ? undefined : resumePage + 1;
+          resumeUntil = gapClosed ? undefined : resumeUntil;
+        }
+
+        context.state.devto[tag] = { lastPublishedAt, resumePage, resumeUntil };
+        context.log(
+          `Fetched ${count} dev.to articles for ${tag} in ${
+            maxPages - pagesLeft
+          } pages${resumePage ? `, resuming at page ${resumePage}` : ""}`
+        );
+      } catch (error) {
+        result.failed++;
+        context.log(
+          `Error fetching dev.to tag ${tag}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,31 @@
+import type {
+  AdapterResult,
+  HashnodeSourceConfig,
+  IngestContext,
+  SourceAdapter,
+} from "../types";
+import { fetchFeeds } from "./rss";
+
+const DEFAULT_PER_FEED = 15;
+
+export const getHashnodeFeedUrl = (tag: string) =>
+  `https://hashnode.com/n/${encodeURIComponent(tag)}/rss.xml`;
+
+// Hashnode's per-tag RSS feeds
+export class HashnodeAdapter implements SourceAdapter {
+  readonly source = "hashnode";
+
+  constructor(private readonly config: HashnodeSourceConfig) {}
+
+  fetch(context: IngestContext): Promise<AdapterResult> {
+    return fetchFeeds(
+      this.config.tags.map(getHashnodeFeedUrl),
+      this.source,
+      context,
+      {
+        limit: this.config.perFeed ?? DEFAULT_PER_FEED,
+        codeBlocks: this.config.codeBlocks,
+      }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import type { SourceAdapter, SourceConfig } from "../types";
+import { DevToAdapter } from "./devto";
+import { HashnodeAdapter } from "./hashnode";
+import { LocalAdapter } from "./local";
+import { RssAdapter } from "./rss";
+
+export const createAdapter = (config: SourceConfig): SourceAdapter => {
+  switch (config.type) {
+    case "devto":
+      return new DevToAdapter(config);
+    case "hashnode":
+      return new HashnodeAdapter(config);
+    case "rss":
+      return new RssAdapter(config);
+    case "local":
+      return new LocalAdapter(config);
+  }
+};
+
+export { DevToAdapter } from "./devto";
+export { HashnodeAdapter } from "./hashnode";
+export { LocalAdapter } from "./local";
+export { RssAdapter } from "./rss";
@@ -0,0 +1,415 @@
+import fs from "fs";
+import path from "path";
+import { normalizeSnippetContent } from "../../content";
+import { toTimestamp, type Snippet } from "../../snippet";
+import {
+  codeBlocksToSnippets,
+  extractMarkdownCodeBlocks,
+  normalizeLanguage,
+  stripInlineMarkdown,
+} from "../codeBlocks";
+import { inferTags } from "../feeds";
+import { parseFrontmatter, type FrontmatterValue } from "../frontmatter";
+import {
+  globToRegExp,
+  matchesAnyGlob,
+  matchGitignore,
+  parseGitignore,
+} from "../globs";
+import { getErrorMessage } from "../http";
+import type {
+  AdapterResult,
+  IngestContext,
+  LocalSourceConfig,
+  SourceAdapter,
+} from "../types";
+
+const DEFAULT_INCLUDE = ["**/*.{md,mdx,markdown}"];
+const DEFAULT_MAX_FILE_BYTES = 100_000;
+const MARKDOWN_FILE_PATTERN = /\.(?:md|mdx|markdown)$/i;
+// A NUL byte this early means a binary file, the same check git makes
+const BINARY_CHECK_BYTES = 8000;
+// Version control directories, never indexed whatever .gitignore says
+const SKIPPED_DIRECTORIES = new Set([".git", ".hg", ".svn"]);
+
+export interface GitHead {
+  commit?: string;
+  branch?: string;
+}
+
+const readIfExists = (file: string): string | undefined =>
+  fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : undefined;
+
+// HEAD of a git checkout, read from .git without running git. Empty for a
+// plain directory.
+export const readGitHead = (root: string): GitHead => {
+  let gitDir = path.join(root, ".git");
+  if (!fs.existsSync(gitDir)) return {};
+  // Worktrees and submodules have a .git file pointing at their directory
+  if (fs.statSync(gitDir).isFile()) {
+    const pointer = fs.readFileSync(gitDir, "utf-8").match(/^gitdir:\s*(.+)$/m);
+    if (!pointer) return {};
+    gitDir = path.resolve(root, pointer[1].trim());
+  }
+
+  const head = readIfExists(path.join(gitDir, "HEAD"))?.trim();
+  const ref = head?.match(/^ref:\s*(\S+)/)?.[1];
+  if (!ref) return { commit: head || undefined };
+  const branch = ref.replace(/^refs\/heads\//, "");
+
+  // A worktree's branches live in the main repository's directory
+  const commonDir = readIfExists(path.join(gitDir, "commondir"))?.trim();
+  for (const dir of [
+    gitDir,
+    ...(commonDir ? [path.resolve(gitDir, commonDir)] : []),
+  ]) {
+    const loose = readIfExists(path.join(dir, ref))?.trim();
+    if (loose) return { commit: loose, branch };
+    const packed = readIfExists(path.join(dir, "packed-refs"))
+      ?.split("\n")
+      .find((line) => line.endsWith(` ${ref}`));
+    if (packed) return { commit: packed.split(" ")[0], branch };
+  }
+  // A branch without commits yet
+  return { branch };
+};
+
+interface IgnoreLevel {
+  // Directory of the .gitignore, relative to the root ("" for the root)
+  base: string;
+  rules: ReturnType<typeof parseGitignore>;
+}
+
+// Rules of deeper .gitignore files override those of the directories above
+const isIgnored = (
+  levels: IgnoreLevel[],
+  relativePath: string,
+  isDirectory: boolean
+): boolean => {
+  let ignored = false;
+  for (const { base, rules } of levels) {
+    const fromBase = base ? relativePath.slice(base.length + 1) : relativePath;
+    ignored = matchGitignore(rules, fromBase, isDirectory) ?? ignored;
+  }
+  return ignored;
+};
+
+// Files under root matching include and not exclude, as sorted relative
+// paths. Ignored directories are not entered and symbolic links not followed.
+export const listFiles = (
+  root: string,
+  include: string[],
+  exclude: string[] = []
+): string[] => {
+  const includeGlobs = include.map(globToRegExp);
+  const excludeGlobs = exclude.map(globToRegExp);
+  const files: string[] = [];
+
+  const visit = (relativeDir: string, parentLevels: IgnoreLevel[]) => {
+    const dir = path.join(root, relativeDir);
+    const gitignore = readIfExists(path.join(dir, ".gitignore"));
+    const levels = gitignore
+      ? [
+          ...parentLevels,
+          { base: relativeDir, rules: parseGitignore(gitignore) },
+        ]
+      : parentLevels;
+    const entries = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.isSymbolicLink() || SKIPPED_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      if (isIgnored(levels, relativePath, entry.isDirectory())) continue;
+      if (entry.isDirectory()) {
+        visit(relativePath, levels);
+      } else if (
+        entry.isFile() &&
+        matchesAnyGlob(includeGlobs, relativePath) &&
+        !matchesAnyGlob(excludeGlobs, relativePath)
+      ) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  // Patterns excluded for this clone only
+  const excludeFile = readIfExists(path.join(root, ".git", "info", "exclude"));
+  visit(
+    "",
+    excludeFile ? [{ base: "", rules: parseGitignore(excludeFile) }] : []
+  );
+  return files;
+};
+
+const PERMALINK_PLACEHOLDER_PATTERN = /\{(path|line|commit|branch)\}/g;
+
+// Placeholders the template uses that have no value in this checkout
+const getMissingPlaceholders = (template: string, head: GitHead): string[] =>
+  Array.from(template.matchAll(PERMALINK_PLACEHOLDER_PATTERN))
+    .map(([, name]) => name)
+    .filter((name) => (name === "commit" || name === "branch") && !head[name]);
+
+const formatPermalink = (
+  template: string,
+  head: GitHead,
+  relativePath: string,
+  line: number
+): string =>
+  template.replace(PERMALINK_PLACEHOLDER_PATTERN, (_placeholder, name) => {
+    switch (name) {
+      case "path":
+        return relativePath.split("/").map(encodeURIComponent).join("/");
+      case "line":
+        return String(line);
+      default:
+        return encodeURIComponent(head[name as keyof GitHead] ?? "");
+    }
+  });
+
+const toText = (value?: FrontmatterValue): string | undefined =>
+  (Array.isArray(value) ? value.join(", ") : value)?.trim() || undefined;
+
+const toList = (value?: FrontmatterValue): string[] =>
+  Array.isArray(value)
+    ? value
+    : (value ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+// Title of a Markdown document without one in its frontmatter
+const getFirstHeading = (markdown: string): string | undefined => {
+  const heading = markdown.match(/^ {0,3}#\s+(.*?)(?:\s+#+)?\s*$/m)?.[1];
+  return heading ? stripInlineMarkdown(heading) || undefined : undefined;
+};
+
+// The first paragraph of prose, skipping headings, code and HTML
+const getFirstParagraph = (markdown: string): string => {
+  const paragraph: string[] = [];
+  let inFence = false;
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(?:`{3,}|~{3,})/.test(line)) {
+      if (paragraph.length > 0) break;
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    if (!line.trim() || /^\s*(?:#|<|!\[)/.test(line)) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+  return stripInlineMarkdown(paragraph.join(" "));
+};
+
+// The comment a source file opens with, which usually says what it is for
+const getLeadingComment = (code: string): string => {
+  const text = code.replace(/^#!.*\n/, "").trimStart();
+  const block = text.match(/^\/\*+([\s\S]*?)\*\//);
+  const lines: string[] = [];
+  if (block) {
+    lines.push(
+      ...block[1].split("\n").map((line) => line.replace(/^\s*\*?/, ""))
+    );
+  } else {
+    // Consecutive line comments: //, # (not #include) and --
+    for (const line of text.split("\n")) {
+      const comment = line.match(/^\s*(?:\/\/+|#(?=\s|$)|--)(.*)$/);
+      if (!comment) break;
+      lines.push(comment[1]);
+    }
+  }
+  return lines.join(" ").replace(/\s+/g, " ").trim();
+};
+
+// Trailing whitespace on each line and blank lines around the content
+const trimLines = (text: string): string =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/^\n+|\n+$/g, "");
+
+// Records of files in a local directory or git checkout. Markdown files
+// become an article, with frontmatter for its title, tags, description,
+// author and date, plus a record for each fenced code block; other included
+// files become one code record each. Each run reads the whole directory, so
+// records of deleted files are removed from the dataset.
+export class LocalAdapter implements SourceAdapter {
+  readonly source: string;
+
+  constructor(private readonly config: LocalSourceConfig) {
+    this.source = config.source;
+  }
+
+  async fetch(context: IngestContext): Promise<AdapterResult> {
+    const result: AdapterResult = { snippets: [], fetched: 0, failed: 0 };
+    const root = path.resolve(process.cwd(), this.config.path);
+    const maxFileBytes = this.config.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+    let files: string[];
+    let head: GitHead;
+    try {
+      files = listFiles(
+        root,
+        this.config.include ?? DEFAULT_INCLUDE,
+        this.config.exclude
+      );
+      head = readGitHead(root);
+    } catch (error) {
+      result.failed++;
+      context.log(`Error reading ${root}: ${getErrorMessage(error)}`);
+      return result;
+    }
+
+    const missing = this.config.permalink
+      ? getMissingPlaceholders(this.config.permalink, head)
+      : [];
+    if (missing.length > 0) {
+      result.failed++;
+      context.log(
+        `permalink uses {${missing.join(
+          "}, {"
+        )}}, but ${root} is not a git checkout with commits`
+      );
+      return result;
+    }
+
+    let skipped = 0;
+    for (const file of files) {
+      result.fetched++;
+      try {
+        const absolutePath = path.join(root, file);
+        if (fs.statSync(absolutePath).size > maxFileBytes) {
+          skipped++;
+          continue;
+        }
+        const content = fs.readFileSync(absolutePath);
+        if (content.subarray(0, BINARY_CHECK_BYTES).includes(0)) {
+          skipped++;
+          continue;
+        }
+        const getUrl = (line: number) =>
+          this.config.permalink &&
+          formatPermalink(this.config.permalink, head, file, line);
+        result.snippets.push(
+          ...(MARKDOWN_FILE_PATTERN.test(file)
+            ? this.markdownToSnippets(
+                file,
+                content.toString("utf-8"),
+                context,
+                getUrl
+              )
+            : this.sourceFileToSnippets(
+                file,
+                content.toString("utf-8"),
+                context,
+                getUrl
+              ))
+        );
+      } catch (error) {
+        result.failed++;
+        context.log(`Error reading ${file}: ${getErrorMessage(error)}`);
+      }
+    }
+
+    // Records of unreadable files must not be taken for deleted ones
+    result.complete = result.failed === 0;
+    context.log(
+      `Indexed ${files.length - skipped} of ${files.length} files in ${root}${
+        skipped > 0 ? ` (${skipped} binary or over ${maxFileBytes} bytes)` : ""
+      }`
+    );
+    return result;
+  }
+
+  private getTags(own: string[], title: string, context: IngestContext) {
+    const tags = own.length > 0 ? own : inferTags(title, context.tagKeywords);
+    return Array.from(new Set([...tags, ...(this.config.tags ?? [])]));
+  }
+
+  private markdownToSnippets(
+    file: string,
+    markdown: string,
+    context: IngestContext,
+    getUrl: (line: number) => string | undefined
+  ): Snippet[] {
+    const { data, body, bodyLine } = parseFrontmatter(markdown);
+    if (toText(data.draft) === "true") return [];
+
+    const title =
+      toText(data.title) ??
+      getFirstHeading(body) ??
+      path.basename(file).replace(MARKDOWN_FILE_PATTERN, "");
+    const description =
+      toText(data.description) ??
+      toText(data.summary) ??
+      getFirstParagraph(body);
+    const snippet: Snippet = {
+      objectID: `${this.source}-${file}`,
+      title,
+      snippet: description,
+      preview: description,
+      ...normalizeSnippetContent(description, "text"),
+      url: getUrl(1),
+      tags: this.getTags(toList(data.tags), title, context),
+      source: this.source,
+      path: file,
+    };
+    const author = toText(data.author);
+    if (author) snippet.author = author;
+    const timestamp = toTimestamp(toText(data.date));
+    if (timestamp !== undefined) {
+      snippet.publishedAt = new Date(timestamp * 1000).toISOString();
+    }
+
+    if (this.config.codeBlocks === false) return [snippet];
+    return [
+      snippet,
+      ...codeBlocksToSnippets(
+        snippet,
+        extractMarkdownCodeBlocks(body),
+        (block) =>
+          block.line === undefined
+            ? undefined
+            : getUrl(block.line + bodyLine - 1)
+      ),
+    ];
+  }
+
+  private sourceFileToSnippets(
+    file: string,
+    text: string,
+    context: IngestContext,
+    getUrl: (line: number) => string | undefined
+  ): Snippet[] {
+    const code = trimLines(text);
+    if (!code) return [];
+    const description = getLeadingComment(code);
+    const snippet: Snippet = {
+      objectID: `${this.source}-${file}`,
+      title: file,
+      snippet: description,
+      preview: description,
+      ...normalizeSnippetContent(description, "text"),
+      url: getUrl(1),
+      // Keywords in the path, e.g. "react/hooks/useDebounce.ts"
+      tags: this.getTags([], file.replace(/[/._-]+/g, " "), context),
+      source: this.source,
+      code,
+      path: file,
+    };
+    const language = normalizeLanguage(
+      path.extname(file).slice(1) || path.basename(file)
+    );
+    if (language) snippet.language = language;
+    return [snippet];
+  }
+}
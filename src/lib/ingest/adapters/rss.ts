@@ -0,0 +1,100 @@
+import { isAfter, latestDate } from "../checkpoints";
+import { codeBlocksToSnippets, extractHtmlCodeBlocks } from "../codeBlocks";
+import { feedItemToSnippet, parseFeedItems } from "../feeds";
+import { getErrorMessage } from "../http";
+import type {
+  AdapterResult,
+  IngestContext,
+  RssSourceConfig,
+  SourceAdapter,
+} from "../types";
+
+const DEFAULT_LIMIT = 10;
+
+export interface FeedOptions {
+  // Items kept from each feed, newest first as the feed lists them
+  limit: number;
+  tagKeywords?: string[];
+  codeBlocks?: boolean;
+}
+
+// Fetches RSS, Atom or JSON feeds and keeps the first `limit` items of each,
+// plus records for the code blocks in their full content. A feed is
+// requested conditionally with the validators of the previous run, so an
+// unchanged feed costs one 304 response.
+export const fetchFeeds = async (
+  urls: string[],
+  source: string,
+  context: IngestContext,
+  { limit, tagKeywords = context.tagKeywords, codeBlocks = true }: FeedOptions
+): Promise<AdapterResult> => {
+  const result: AdapterResult = {
+    snippets: [],
+    fetched: 0,
+    failed: 0,
+    unchanged: 0,
+  };
+
+  for (const url of urls) {
+    const checkpoint = context.state.feeds[url] ?? {};
+    try {
+      const response = await context.http.getFeed(url, checkpoint);
+      if (response.body === null) {
+        result.unchanged!++;
+        context.log(`${url} is unchanged since the last run`);
+        continue;
+      }
+
+      const items = parseFeedItems(response.body).slice(0, limit);
+      const snippets = items.map((item) =>
+        feedItemToSnippet(item, source, tagKeywords)
+      );
+      const codeSnippets = codeBlocks
+        ? items.flatMap((item, j) =>
+            codeBlocksToSnippets(
+              snippets[j],
+              extractHtmlCodeBlocks(item.content ?? item.description)
+            )
+          )
+        : [];
+      const newCount = snippets.filter((snippet) =>
+        isAfter(snippet.publishedAt, checkpoint.lastPublishedAt)
+      ).length;
+      result.fetched += items.length;
+      result.snippets.push(...snippets, ...codeSnippets);
+      context.state.feeds[url] = {
+        etag: response.etag,
+        lastModified: response.lastModified,
+        lastPublishedAt: snippets.reduce<string | undefined>(
+          (latest, snippet) => latestDate(latest, snippet.publishedAt),
+          checkpoint.lastPublishedAt
+        ),
+      };
+      context.log(
+        `Fetched ${items.length} ${source} items (${newCount} new, ${codeSnippets.length} code blocks) from ${url}`
+      );
+    } catch (error) {
+      result.failed++;
+      context.log(`Error fetching feed ${url}: ${getErrorMessage(error)}`);
+    }
+  }
+  return result;
+};
+
+export class RssAdapter implements SourceAdapter {
+  readonly source: string;
+
+  constructor(private readonly config: RssSourceConfig) {
+    this.source = config.source;
+  }
+
+  fetch(context: IngestContext): Promise<AdapterResult> {
+    return fetchFeeds([this.config.url], this.source, context, {
+      limit: this.config.limit ?? DEFAULT_LIMIT,
+      tagKeywords: this.config.tagKeywords?.map((keyword) =>
+        keyword.toLowerCase()
+      ),
+      codeBlocks: this.config.codeBlocks,
+    });
+  }
+}
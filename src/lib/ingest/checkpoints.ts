@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import type { IngestState } from "./types";
+
+// Checkpoints let each run fetch only what changed since the previous one.
+// They live in a JSON file next to the dataset; deleting it (or running with
+// --full) makes the next run fetch everything again.
+
+export const createIngestState = (): IngestState => ({ feeds: {}, devto: {} });
+
+export const loadIngestState = (file: string): IngestState => {
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) return createIngestState();
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  return { ...createIngestState(), ...parsed };
+};
+
+export const saveIngestState = (file: string, state: IngestState) => {
+  fs.writeFileSync(
+    path.resolve(process.cwd(), file),
+    JSON.stringify(state, null, 2)
+  );
+};
+
+const toTime = (date?: string) => (date ? Date.parse(date) : NaN);
+
+// True when date is later than the checkpoint, or either is missing or invalid
+export const isAfter = (date?: string, checkpoint?: string): boolean =>
+  !(toTime(date) <= toTime(checkpoint));
+
+// The later of two dates, ignoring missing or invalid ones
+export const latestDate = (
+  a: string | undefined,
+  b: string | undefined
+): string | undefined =>
+  Number.isNaN(toTime(a)) || toTime(b) > toTime(a) ? b : a;
@@ -0,0 +1,210 @@
+import { decode } from "he";
+import { htmlToText } from "../content";
+import type { Snippet } from "../snippet";
+
+// Code blocks of full article bodies, each turned into its own record next
+// to the article: fenced blocks of Markdown (dev.to's body_markdown) and
+// <pre> blocks of HTML (RSS content:encoded, Atom and JSON Feed content).
+
+export interface CodeBlock {
+  code: string;
+  language?: string;
+  // Text of the closest heading above the block
+  heading?: string;
+  // 1-based line of the opening fence, for Markdown
+  line?: number;
+}
+
+// Blocks shorter than this are mostly shell one-word commands or output
+const MIN_CODE_LENGTH = 20;
+// Longer blocks are usually generated output or whole files
+const MAX_CODE_LENGTH = 5000;
+const MAX_BLOCKS_PER_ARTICLE = 10;
+
+// Common spellings mapped onto the language facet's values
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  node: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  py: "python",
+  rb: "ruby",
+  yml: "yaml",
+  md: "markdown",
+  htm: "html",
+  golang: "go",
+  rs: "rust",
+};
+
+// Info strings that say nothing about the language
+const PLAIN_LANGUAGES = new Set(["text", "plain", "plaintext", "txt", "none"]);
+
+export const normalizeLanguage = (value?: string): string | undefined => {
+  const language = value
+    ?.trim()
+    .toLowerCase()
+    .replace(/^\{?\.?/, "")
+    .replace(/[^a-z0-9+#-].*$/, "");
+  if (!language || PLAIN_LANGUAGES.has(language)) return undefined;
+  return LANGUAGE_ALIASES[language] ?? language;
+};
+
+// Any indentation, so fences nested in list items are found too
+const FENCE_PATTERN = /^( *)(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING_PATTERN = /^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+
+// Inline Markdown as text, without links, emphasis and code spans
+export const stripInlineMarkdown = (markdown: string): string =>
+  markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]/g, "")
+    .trim();
+
+// Fenced blocks of a Markdown document. A fence left open at the end of the
+// document is dropped rather than swallowing the rest of the article.
+export const extractMarkdownCodeBlocks = (markdown: string): CodeBlock[] => {
+  const blocks: CodeBlock[] = [];
+  let heading: string | undefined;
+  let fence: {
+    indent: number;
+    marker: string;
+    info: string;
+    line: number;
+  } | null = null;
+  let lines: string[] = [];
+
+  for (const [index, line] of markdown.split(/\r?\n/).entries()) {
+    if (fence) {
+      const closing = line.match(FENCE_PATTERN);
+      if (
+        closing &&
+        closing[2][0] === fence.marker[0] &&
+        closing[2].length >= fence.marker.length &&
+        !closing[3].trim()
+      ) {
+        blocks.push({
+          code: lines.join("\n"),
+          language: normalizeLanguage(fence.info.split(/\s+/)[0]),
+          heading,
+          line: fence.line,
+        });
+        fence = null;
+      } else {
+        // Content is dedented by the opening fence's indentation
+        lines.push(line.replace(new RegExp(`^ {0,${fence.indent}}`), ""));
+      }
+      continue;
+    }
+
+    const opening = line.match(FENCE_PATTERN);
+    // A backtick fence's info string may not contain backticks
+    if (opening && !(opening[2][0] === "`" && opening[3].includes("`"))) {
+      fence = {
+        indent: opening[1].length,
+        marker: opening[2],
+        info: opening[3].trim(),
+        line: index + 1,
+      };
+      lines = [];
+      continue;
+    }
+
+    const headingMatch = line.match(ATX_HEADING_PATTERN);
+    if (headingMatch)
+      heading = stripInlineMarkdown(headingMatch[1]) || undefined;
+  }
+  return blocks;
+};
+
+const HTML_BLOCK_PATTERN =
+  /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>|<pre\b([^>]*)>([\s\S]*?)<\/pre>/gi;
+
+const HTML_LANGUAGE_PATTERNS = [
+  /\bdata-lang(?:uage)?\s*=\s*["']([^"']+)["']/i,
+  /\bclass\s*=\s*["'][^"']*\b(?:language|lang|highlight-source)-([\w+#-]+)/i,
+  /\bclass\s*=\s*["'][^"']*\bbrush:\s*([\w+#-]+)/i,
+];
+
+const getHtmlLanguage = (attributes: string): string | undefined => {
+  for (const pattern of HTML_LANGUAGE_PATTERNS) {
+    const match = attributes.match(pattern);
+    if (match) return normalizeLanguage(match[1]);
+  }
+  return undefined;
+};
+
+// <pre> blocks of an HTML document. Syntax highlighting markup is stripped;
+// the language comes from the <pre> or inner <code> element's class
+// (language-ts, lang-js) or data-lang attribute.
+export const extractHtmlCodeBlocks = (html: string): CodeBlock[] => {
+  const blocks: CodeBlock[] = [];
+  let heading: string | undefined;
+
+  for (const match of Array.from(html.matchAll(HTML_BLOCK_PATTERN))) {
+    const [, , headingHtml, preAttributes, preHtml] = match;
+    if (headingHtml !== undefined) {
+      heading = htmlToText(headingHtml) || undefined;
+      continue;
+    }
+
+    const codeAttributes = preHtml.match(/<code\b([^>]*)>/i)?.[1] ?? "";
+    blocks.push({
+      code: decode(
+        preHtml.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]*>/g, "")
+      ),
+      language:
+        getHtmlLanguage(codeAttributes) ?? getHtmlLanguage(preAttributes),
+      heading,
+    });
+  }
+  return blocks;
+};
+
+// Removes blank lines around the code and trailing whitespace on each line
+const trimCode = (code: string): string =>
+  code
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/^\n+|\n+$/g, "");
+
+// Records for an article's code blocks, linked to the article by parentID.
+// They share the article's URL, tags, source, author and date, so filters
+// and sorting treat them like the article. getUrl gives a block a URL of
+// its own, e.g. a permalink to its line.
+export const codeBlocksToSnippets = (
+  parent: Snippet,
+  blocks: CodeBlock[],
+  getUrl?: (block: CodeBlock) => string | undefined
+): Snippet[] =>
+  blocks
+    .map((block) => ({ ...block, code: trimCode(block.code) }))
+    .filter(
+      ({ code }) =>
+        code.length >= MIN_CODE_LENGTH && code.length <= MAX_CODE_LENGTH
+    )
+    .slice(0, MAX_BLOCKS_PER_ARTICLE)
+    .map((block, i) => {
+      const snippet: Snippet = {
+        ...parent,
+        objectID: `${parent.objectID}-code-${i + 1}`,
+        // A document's first heading is often its title again
+        title:
+          block.heading && block.heading !== parent.title
+            ? `${parent.title}: ${block.heading}`
+            : parent.title,
+        code: block.code,
+        parentID: parent.objectID,
+      };
+      if (block.language) snippet.language = block.language;
+      if (block.heading) snippet.heading = block.heading;
+      const url = getUrl?.(block);
+      if (url) snippet.url = url;
+      return snippet;
+    });
@@ -0,0 +1,193 @@
+import fs from "fs";
+import path from "path";
+import { TAG_KEYWORDS } from "./feeds";
+import { DEFAULT_HTTP_CLIENT_OPTIONS, type HostLimits } from "./http";
+import type { HttpConfig, IngestConfig, SourceConfig } from "./types";
+
+export const INGEST_CONFIG_FILE = "ingest.config.json";
+
+const DEFAULT_OUTPUT = "scraped-snippets.json";
+const DEFAULT_STATE_FILE = "ingest-state.json";
+const DEFAULT_CHANGELOG_FILE = "ingest-changelog.jsonl";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validateHostLimits = (limits: unknown, hostname: string): HostLimits => {
+  const where = `http.hosts[${JSON.stringify(hostname)}]`;
+  if (!isObject(limits)) throw new Error(`${where} must be an object`);
+  if (limits.concurrency !== undefined && !isCount(limits.concurrency, 1)) {
+    throw new Error(`${where}.concurrency must be a positive integer`);
+  }
+  if (
+    limits.requestDelayMs !== undefined &&
+    !isCount(limits.requestDelayMs, 0)
+  ) {
+    throw new Error(`${where}.requestDelayMs must be a number of milliseconds`);
+  }
+  return limits as HostLimits;
+};
+
+const parseHttpConfig = (raw: unknown = {}): HttpConfig => {
+  if (!isObject(raw)) throw new Error("http must be an object");
+  if (
+    raw.userAgent !== undefined &&
+    (typeof raw.userAgent !== "string" || !raw.userAgent.trim())
+  ) {
+    throw new Error("http.userAgent must be a non-empty string");
+  }
+  if (
+    raw.concurrencyPerHost !== undefined &&
+    !isCount(raw.concurrencyPerHost, 1)
+  ) {
+    throw new Error("http.concurrencyPerHost must be a positive integer");
+  }
+  if (raw.maxRetries !== undefined && !isCount(raw.maxRetries, 0)) {
+    throw new Error("http.maxRetries must be zero or a positive integer");
+  }
+  if (
+    raw.respectRobotsTxt !== undefined &&
+    typeof raw.respectRobotsTxt !== "boolean"
+  ) {
+    throw new Error("http.respectRobotsTxt must be true or false");
+  }
+  if (raw.hosts !== undefined && !isObject(raw.hosts)) {
+    throw new Error("http.hosts must be an object keyed by hostname");
+  }
+  const defaults = DEFAULT_HTTP_CLIENT_OPTIONS;
+  return {
+    userAgent: (raw.userAgent as string | undefined) ?? defaults.userAgent,
+    concurrencyPerHost:
+      (raw.concurrencyPerHost as number | undefined) ??
+      defaults.concurrencyPerHost,
+    maxRetries: (raw.maxRetries as number | undefined) ?? defaults.maxRetries,
+    respectRobotsTxt:
+      (raw.respectRobotsTxt as boolean | undefined) ??
+      defaults.respectRobotsTxt,
+    hosts: Object.fromEntries(
+      Object.entries(raw.hosts ?? {}).map(([hostname, limits]) => [
+        hostname.toLowerCase(),
+        validateHostLimits(limits, hostname),
+      ])
+    ),
+  };
+};
+
+const validateSource = (source: unknown, index: number): SourceConfig => {
+  const where = `sources[${index}]`;
+  if (typeof source !== "object" || source === null) {
+    throw new Error(`${where} must be an object`);
+  }
+  const config = source as Record<string, unknown>;
+  if (
+    config.codeBlocks !== undefined &&
+    typeof config.codeBlocks !== "boolean"
+  ) {
+    throw new Error(`${where}.codeBlocks must be true or false`);
+  }
+  switch (config.type) {
+    case "devto":
+    case "hashnode":
+      if (!isStringArray(config.tags) || config.tags.length === 0) {
+        throw new Error(`${where}.tags must be a non-empty list of tags`);
+      }
+      return config as unknown as SourceConfig;
+    case "rss":
+      if (typeof config.source !== "string" || !config.source) {
+        throw new Error(`${where}.source is required`);
+      }
+      if (typeof config.url !== "string" || !/^https?:\/\//.test(config.url)) {
+        throw new Error(`${where}.url must be an http(s) URL`);
+      }
+      if (
+        config.tagKeywords !== undefined &&
+        !isStringArray(config.tagKeywords)
+      ) {
+        throw new Error(`${where}.tagKeywords must be a list of words`);
+      }
+      return config as unknown as SourceConfig;
+    case "local":
+      if (typeof config.source !== "string" || !config.source) {
+        throw new Error(`${where}.source is required`);
+      }
+      if (typeof config.path !== "string" || !config.path) {
+        throw new Error(`${where}.path is required`);
+      }
+      for (const key of ["include", "exclude", "tags"]) {
+        if (config[key] !== undefined && !isStringArray(config[key])) {
+          throw new Error(`${where}.${key} must be a list of strings`);
+        }
+      }
+      if (
+        config.permalink !== undefined &&
+        (typeof config.permalink !== "string" ||
+          !/^https?:\/\//.test(config.permalink))
+      ) {
+        throw new Error(`${where}.permalink must be an http(s) URL template`);
+      }
+      if (
+        config.maxFileBytes !== undefined &&
+        !isCount(config.maxFileBytes, 1)
+      ) {
+        throw new Error(`${where}.maxFileBytes must be a positive integer`);
+      }
+      return config as unknown as SourceConfig;
+    default:
+      throw new Error(
+        `${where}.type must be "devto", "hashnode", "rss" or "local", got ${JSON.stringify(
+          config.type
+        )}`
+      );
+  }
+};
+
+export const parseIngestConfig = (raw: unknown): IngestConfig => {
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error("Ingest config must be a JSON object");
+  }
+  const config = raw as Record<string, unknown>;
+  if (!Array.isArray(config.sources)) {
+    throw new Error("Ingest config needs a sources list");
+  }
+  return {
+    output: typeof config.output === "string" ? config.output : DEFAULT_OUTPUT,
+    stateFile:
+      typeof config.stateFile === "string"
+        ? config.stateFile
+        : DEFAULT_STATE_FILE,
+    changelogFile:
+      typeof config.changelogFile === "string"
+        ? config.changelogFile
+        : DEFAULT_CHANGELOG_FILE,
+    requestDelayMs:
+      typeof config.requestDelayMs === "number"
+        ? config.requestDelayMs
+        : DEFAULT_HTTP_CLIENT_OPTIONS.requestDelayMs,
+    http: parseHttpConfig(config.http),
+    tagKeywords: isStringArray(config.tagKeywords)
+      ? config.tagKeywords.map((keyword) => keyword.toLowerCase())
+      : TAG_KEYWORDS,
+    sources: config.sources.map(validateSource),
+  };
+};
+
+export const loadIngestConfig = (
+  file: string = INGEST_CONFIG_FILE
+): IngestConfig => {
+  const filePath = path.resolve(process.cwd(), file);
+  try {
+    return parseIngestConfig(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+  } catch (error) {
+    throw new Error(
+      `Invalid ingest config ${file}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+};
@@ -0,0 +1,236 @@
+import { htmlToText } from "../content";
+import { tokenize } from "../search/text";
+import { toTimestamp, type Snippet } from "../snippet";
+import { canonicalizeUrl } from "./urls";
+
+// Duplicate clustering over the whole dataset. Records are the same article
+// when they share a URL (their own or the one they declare canonical), or
+// when their title and opening words are nearly the same: MinHash signatures
+// of word shingles, paired up by locality-sensitive hashing and confirmed by
+// their estimated Jaccard similarity. Each cluster keeps one record, which
+// lists the URLs and sources of all copies; the others get duplicateOf.
+
+const SIGNATURE_SIZE = 64;
+// 32 bands of 2 rows: pairs at the threshold nearly always share a band
+const BAND_ROWS = 2;
+const SHINGLE_WORDS = 3;
+// Sources cut descriptions at different lengths; only the start is compared
+const COMPARED_BODY_WORDS = 30;
+const NEAR_DUPLICATE_SIMILARITY = 0.5;
+// Too little text to tell articles apart, e.g. two posts titled "Day 1"
+const MIN_SHINGLES = 4;
+
+// 32-bit FNV-1a
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+// murmur3's finalizer, seeded to give SIGNATURE_SIZE independent hashes
+const mix = (value: number, seed: number): number => {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) =>
+  mix(i + 1, 0x9e3779b9)
+);
+
+const getShingles = (snippet: Snippet): Set<number> => {
+  const words = [
+    ...tokenize(snippet.title),
+    ...tokenize(snippet.snippetText ?? htmlToText(snippet.snippet)).slice(
+      0,
+      COMPARED_BODY_WORDS
+    ),
+  ];
+  const shingles = new Set<number>();
+  const size = Math.min(SHINGLE_WORDS, words.length);
+  for (let start = 0; start + size <= words.length && size > 0; start++) {
+    shingles.add(hash(words.slice(start, start + size).join(" ")));
+  }
+  return shingles;
+};
+
+// null when the record has too little text to compare
+export const getMinHashSignature = (snippet: Snippet): number[] | null => {
+  const shingles = getShingles(snippet);
+  if (shingles.size < MIN_SHINGLES) return null;
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of Array.from(shingles)) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(shingle, SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+};
+
+// Share of matching positions, an estimate of the shingles' Jaccard similarity
+export const estimateSimilarity = (a: number[], b: number[]): number => {
+  let same = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / SIGNATURE_SIZE;
+};
+
+const createUnionFind = (size: number) => {
+  const parents = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parents[i] !== i) {
+      parents[i] = parents[parents[i]];
+      i = parents[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // The lower index stays root so clusters come out in dataset order
+    if (rootA !== rootB)
+      parents[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+  return { find, union };
+};
+
+const getUrlKeys = (snippet: Snippet): string[] =>
+  [snippet.url, snippet.canonicalUrl].flatMap((url) =>
+    url ? [canonicalizeUrl(url)] : []
+  );
+
+// Groups of article indexes that are copies of each other
+const findClusters = (articles: Snippet[]): number[][] => {
+  const { find, union } = createUnionFind(articles.length);
+
+  const byUrl = new Map<string, number>();
+  articles.forEach((article, i) => {
+    for (const key of getUrlKeys(article)) {
+      const first = byUrl.get(key);
+      if (first === undefined) byUrl.set(key, i);
+      else union(first, i);
+    }
+  });
+
+  const signatures = articles.map(getMinHashSignature);
+  const buckets = new Map<string, number[]>();
+  signatures.forEach((signature, i) => {
+    if (!signature) return;
+    for (let start = 0; start < SIGNATURE_SIZE; start += BAND_ROWS) {
+      const key = `${start}:${signature.slice(start, start + BAND_ROWS)}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+  });
+  const compared = new Set<string>();
+  for (const bucket of Array.from(buckets.values())) {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const [i, j] = [bucket[a], bucket[b]];
+        const pair = `${i},${j}`;
+        if (compared.has(pair) || find(i) === find(j)) continue;
+        compared.add(pair);
+        if (
+          estimateSimilarity(signatures[i]!, signatures[j]!) >=
+          NEAR_DUPLICATE_SIMILARITY
+        ) {
+          union(i, j);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  articles.forEach((_, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(i);
+    else clusters.set(root, [i]);
+  });
+  return Array.from(clusters.values()).filter((cluster) => cluster.length > 1);
+};
+
+// The original of a cluster: the copy others name as canonical, otherwise
+// the earliest published one, otherwise the first in the dataset
+const pickPrimary = (members: Snippet[]): Snippet => {
+  const declared = new Set(
+    members.flatMap((member) =>
+      member.canonicalUrl ? [canonicalizeUrl(member.canonicalUrl)] : []
+    )
+  );
+  const original = members.find(
+    (member) => member.url && declared.has(canonicalizeUrl(member.url))
+  );
+  if (original) return original;
+  return members.reduce((earliest, member) => {
+    const time = toTimestamp(member.publishedAt) ?? Infinity;
+    return time < (toTimestamp(earliest.publishedAt) ?? Infinity)
+      ? member
+      : earliest;
+  });
+};
+
+export interface ClusterResult {
+  snippets: Snippet[];
+  // objectIDs of records merged into another one
+  duplicates: string[];
+}
+
+// Recomputes every cluster from scratch, so the result only depends on the
+// records themselves. Code block records of a copy are duplicates when the
+// kept article has a block with the same code.
+export const clusterDuplicates = (snippets: Snippet[]): ClusterResult => {
+  const records = snippets.map((snippet) => {
+    const record = { ...snippet };
+    delete record.urls;
+    delete record.sources;
+    delete record.duplicateOf;
+    return record;
+  });
+  const articles = records.filter((record) => !record.parentID);
+
+  // Article objectID -> objectID of the record kept for its cluster
+  const keptAs = new Map<string, string>();
+  for (const cluster of findClusters(articles)) {
+    const members = cluster.map((i) => articles[i]);
+    const primary = pickPrimary(members);
+    const copies = [primary, ...members.filter((member) => member !== primary)];
+    primary.urls = Array.from(
+      new Set(copies.flatMap((copy) => (copy.url ? [copy.url] : [])))
+    );
+    primary.sources = Array.from(new Set(copies.map((copy) => copy.source)));
+    for (const copy of copies.slice(1)) {
+      copy.duplicateOf = primary.objectID;
+      keptAs.set(copy.objectID, primary.objectID);
+    }
+  }
+
+  // Blocks of kept articles first, so copies' blocks find them
+  const blocks = records.filter((record) => record.parentID);
+  const keptBlocks = new Map<string, string>();
+  for (const block of [
+    ...blocks.filter((block) => !keptAs.has(block.parentID!)),
+    ...blocks.filter((block) => keptAs.has(block.parentID!)),
+  ]) {
+    const key = `${keptAs.get(block.parentID!) ?? block.parentID}\n${
+      block.code
+    }`;
+    const kept = keptBlocks.get(key);
+    if (kept) block.duplicateOf = kept;
+    else keptBlocks.set(key, block.objectID);
+  }
+
+  return {
+    snippets: records,
+    duplicates: records.flatMap((record) =>
+      record.duplicateOf ? [record.objectID] : []
+    ),
+  };
+};
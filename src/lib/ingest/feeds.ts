@@ -0,0 +1,258 @@
+import { XMLParser } from "fast-xml-parser";
+import { normalizeSnippetContent, type ContentFormat } from "../content";
+import { toTimestamp, type Snippet } from "../snippet";
+import { canonicalizeUrl, findCanonicalLink } from "./urls";
+
+// Feed parsing shared by the Hashnode and generic feed adapters. RSS 2.0,
+// Atom and JSON Feed (1.0 and 1.1) documents are told apart by content, so a
+// feed's format never needs configuring.
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  description: string;
+  // Given by the feed: RSS descriptions are HTML, Atom's type attribute
+  // says, and JSON Feed has separate text and HTML fields
+  descriptionFormat: ContentFormat;
+  // Full body as HTML, when the feed carries it
+  content?: string;
+  url?: string;
+  // rel="canonical" link of the entry or its content
+  canonicalUrl?: string;
+  categories: string[];
+  publishedAt?: string;
+  author?: string;
+}
+
+// Tags inferred from title words when an item has no categories, unless the
+// config sets tagKeywords
+export const TAG_KEYWORDS = [
+  "react",
+  "javascript",
+  "typescript",
+  "nodejs",
+  "nextjs",
+  "webdev",
+  "ai",
+  "programming",
+  "css",
+  "html",
+  "web",
+  "design",
+];
+
+// Attributes are kept for Atom's <link href> and <category term>; tag values
+// stay strings so ids like "007" survive
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+});
+
+type Fields = Record<string, unknown>;
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined || value === null
+    ? []
+    : Array.isArray(value)
+    ? value
+    : [value];
+
+// Text of an element, which is an object when the element has attributes
+const asText = (value: unknown): string | undefined => {
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim() || undefined;
+  }
+  if (value && typeof value === "object" && "#text" in value) {
+    return asText((value as Fields)["#text"]);
+  }
+  return undefined;
+};
+
+const asTexts = (values: unknown, attribute?: string): string[] =>
+  toArray(values).flatMap((value) => {
+    const text =
+      attribute && value && typeof value === "object"
+        ? asText((value as Fields)[attribute])
+        : asText(value);
+    return text ? [text] : [];
+  });
+
+const toFeedItem = (item: Omit<FeedItem, "id"> & { id?: string }) =>
+  item.title && item.id ? [item as FeedItem] : [];
+
+const parseRss = (channel: Fields): FeedItem[] =>
+  toArray(channel.item as Fields[]).flatMap((item) => {
+    const url = asText(item.link);
+    return toFeedItem({
+      id: asText(item.guid) ?? url,
+      title: asText(item.title) ?? "",
+      description: asText(item.description) ?? "",
+      descriptionFormat: "html",
+      content: asText(item["content:encoded"]),
+      url,
+      canonicalUrl: findCanonicalLink(asText(item["content:encoded"]) ?? ""),
+      categories: asTexts(item.category),
+      publishedAt: asText(item.pubDate) ?? asText(item["dc:date"]),
+      author: asText(item["dc:creator"]) ?? asText(item.author),
+    });
+  });
+
+// The entry's web page: the rel="alternate" link, which is the default rel
+const getAtomLink = (links: unknown, rel = "alternate"): string | undefined => {
+  const candidates = toArray(links as Fields[]).filter(
+    (link) => typeof link === "object"
+  );
+  if (rel !== "alternate") {
+    const link = candidates.find((candidate) => candidate["@_rel"] === rel);
+    return link && asText(link["@_href"]);
+  }
+  const alternate =
+    candidates.find((link) => (link["@_rel"] ?? "alternate") === "alternate") ??
+    candidates[0];
+  return alternate ? asText(alternate["@_href"]) : asText(links);
+};
+
+// Atom text constructs are plain text unless type="html" or "xhtml"
+const getAtomFormat = (element: unknown): ContentFormat => {
+  const type =
+    element && typeof element === "object"
+      ? asText((element as Fields)["@_type"])
+      : undefined;
+  return type === "html" || type === "xhtml" ? "html" : "text";
+};
+
+const parseAtom = (feed: Fields): FeedItem[] => {
+  const feedAuthor = asText((feed.author as Fields | undefined)?.name);
+  return toArray(feed.entry as Fields[]).flatMap((entry) => {
+    const url = getAtomLink(entry.link);
+    const description = asText(entry.summary) ? entry.summary : entry.content;
+    return toFeedItem({
+      id: asText(entry.id) ?? url,
+      title: asText(entry.title) ?? "",
+      description: asText(description) ?? "",
+      descriptionFormat: getAtomFormat(description),
+      content: asText(entry.content),
+      url,
+      canonicalUrl:
+        getAtomLink(entry.link, "canonical") ??
+        findCanonicalLink(asText(entry.content) ?? ""),
+      categories: asTexts(entry.category, "@_term"),
+      publishedAt: asText(entry.published) ?? asText(entry.updated),
+      author: asTexts(entry.author, "name")[0] ?? feedAuthor,
+    });
+  });
+};
+
+// summary and content_text are plain text, content_html is HTML
+const getJsonFeedDescription = (
+  item: Fields
+): Pick<FeedItem, "description" | "descriptionFormat"> => {
+  const summary = asText(item.summary);
+  if (summary) return { description: summary, descriptionFormat: "text" };
+  const html = asText(item.content_html);
+  if (html) return { description: html, descriptionFormat: "html" };
+  return {
+    description: asText(item.content_text) ?? "",
+    descriptionFormat: "text",
+  };
+};
+
+// https://www.jsonfeed.org/version/1.1/ (1.0's singular author still read)
+const parseJsonFeed = (feed: Fields): FeedItem[] =>
+  toArray(feed.items as Fields[]).flatMap((item) => {
+    const url = asText(item.url) ?? asText(item.external_url);
+    const authors = [
+      ...toArray(item.authors as Fields[]),
+      ...toArray(item.author as Fields),
+      ...toArray(feed.authors as Fields[]),
+    ];
+    return toFeedItem({
+      id: asText(item.id) ?? url,
+      title: asText(item.title) ?? "",
+      ...getJsonFeedDescription(item),
+      content: asText(item.content_html),
+      url,
+      canonicalUrl: findCanonicalLink(asText(item.content_html) ?? ""),
+      categories: asTexts(item.tags),
+      publishedAt: asText(item.date_published) ?? asText(item.date_modified),
+      author: asTexts(authors, "name")[0],
+    });
+  });
+
+// Name of the root element, after the XML declaration, comments and doctype
+const XML_ROOT_PATTERN =
+  /^\s*(?:(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<([\w:]+)/i;
+
+export const detectFeedFormat = (body: string): FeedFormat | null => {
+  if (body.trimStart().startsWith("{")) return "json";
+  const root = body.match(XML_ROOT_PATTERN)?.[1].toLowerCase();
+  if (root === "rss") return "rss";
+  if (root === "feed") return "atom";
+  return null;
+};
+
+// Items of an RSS, Atom or JSON Feed document. Items without a title or an
+// id (or link to use as one) are skipped.
+export const parseFeedItems = (body: string): FeedItem[] => {
+  switch (detectFeedFormat(body)) {
+    case "json": {
+      const feed = JSON.parse(body);
+      if (!String(feed.version ?? "").startsWith("https://jsonfeed.org/")) {
+        throw new Error("JSON document is not a JSON Feed");
+      }
+      return parseJsonFeed(feed);
+    }
+    case "rss":
+      return parseRss(parser.parse(body)?.rss?.channel ?? {});
+    case "atom":
+      return parseAtom(parser.parse(body)?.feed ?? {});
+    default:
+      throw new Error("Not an RSS, Atom or JSON Feed document");
+  }
+};
+
+export const inferTags = (title: string, keywords = TAG_KEYWORDS): string[] =>
+  Array.from(
+    new Set(
+      title
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((word) => keywords.includes(word))
+    )
+  );
+
+export const feedItemToSnippet = (
+  item: FeedItem,
+  source: string,
+  tagKeywords = TAG_KEYWORDS
+): Snippet => {
+  const url = item.url && canonicalizeUrl(item.url);
+  // Links used as ids are canonicalized too, so tracking parameters added to
+  // an item's link don't turn it into a new record
+  const id = /^https?:\/\//i.test(item.id) ? canonicalizeUrl(item.id) : item.id;
+  const snippet: Snippet = {
+    objectID: `${source}-${id}`,
+    title: item.title,
+    snippet: item.description,
+    preview: item.description,
+    ...normalizeSnippetContent(item.description, item.descriptionFormat),
+    url,
+    tags:
+      item.categories.length > 0
+        ? item.categories
+        : inferTags(item.title, tagKeywords),
+    source,
+    author: item.author || `${source} Author`,
+  };
+  const canonicalUrl = item.canonicalUrl && canonicalizeUrl(item.canonicalUrl);
+  if (canonicalUrl && canonicalUrl !== url) snippet.canonicalUrl = canonicalUrl;
+  // RSS dates ("Tue, 05 Aug 2025 10:00:00 GMT") are stored as ISO 8601
+  const timestamp = toTimestamp(item.publishedAt);
+  if (timestamp !== undefined) {
+    snippet.publishedAt = new Date(timestamp * 1000).toISOString();
+  }
+  return snippet;
+};
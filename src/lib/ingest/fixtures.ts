@@ -0,0 +1,46 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Recorded HTTP responses. An ingest run in record mode saves every response
+// it gets under a directory, one file per URL; a run in replay mode answers
+// requests from those files and never touches the network, so adapters can
+// be run and debugged offline against real data.
+
+export type FixtureMode = "record" | "replay";
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  // Relative to the working directory
+  dir: string;
+}
+
+export interface RecordedResponse {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// <dir>/<host>/<hash of the URL>.json. Conditional request headers are not
+// part of the key, so a replayed feed is found whatever the checkpoints say.
+export const getFixturePath = (dir: string, url: string): string => {
+  const { hostname } = new URL(url);
+  const hash = createHash("sha1").update(url).digest("hex").slice(0, 16);
+  return path.resolve(process.cwd(), dir, hostname, `${hash}.json`);
+};
+
+export const readFixture = (
+  dir: string,
+  url: string
+): RecordedResponse | undefined => {
+  const file = getFixturePath(dir, url);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as RecordedResponse;
+};
+
+export const writeFixture = (dir: string, response: RecordedResponse) => {
+  const file = getFixturePath(dir, response.url);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(response, null, 2));
+};
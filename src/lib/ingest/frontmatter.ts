@@ -0,0 +1,61 @@
+// YAML frontmatter of Markdown notes, as written by static site generators
+// and note-taking apps. Only the subset used for metadata is read: scalar
+// "key: value" pairs, and lists either inline ("[a, b]") or as "- item"
+// lines. Nested objects are skipped.
+
+export type FrontmatterValue = string | string[];
+
+export interface Frontmatter {
+  data: Record<string, FrontmatterValue>;
+  // The document after the frontmatter, and the 1-based line it starts on
+  body: string;
+  bodyLine: number;
+}
+
+const FRONTMATTER_PATTERN =
+  /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  const quoted = trimmed.match(/^(["'])([\s\S]*)\1$/);
+  if (!quoted) return trimmed.replace(/\s+#.*$/, "");
+  return quoted[1] === '"' ? quoted[2].replace(/\\"/g, '"') : quoted[2];
+};
+
+const parseInlineList = (value: string): string[] =>
+  value.slice(1, -1).split(",").map(unquote).filter(Boolean);
+
+export const parseFrontmatter = (markdown: string): Frontmatter => {
+  const text = markdown.replace(/^\uFEFF/, "");
+  const match = text.match(FRONTMATTER_PATTERN);
+  if (!match) return { data: {}, body: text, bodyLine: 1 };
+
+  const data: Record<string, FrontmatterValue> = {};
+  // Key of a "key:" line with no value, whose "- item" lines follow
+  let listKey: string | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), unquote(item[1])];
+      continue;
+    }
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, value] = pair;
+    listKey = undefined;
+    if (!value.trim()) {
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value.trim())) {
+      data[key] = parseInlineList(value.trim());
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+
+  return {
+    data,
+    body: text.slice(match[0].length),
+    bodyLine: match[0].split("\n").length + (match[0].endsWith("\n") ? 0 : 1),
+  };
+};
@@ -0,0 +1,103 @@
+// Glob patterns for picking files of local sources, and .gitignore rules.
+// Paths are relative and use "/" on every platform.
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.+^${}()|[\]\\*?]/g, "\\$&");
+
+// "*" and "?" stay within a path segment, "**/" spans any number of
+// directories (none included), a trailing "**" matches everything below,
+// "[abc]" and "[!abc]" are character classes and "{ts,tsx}" alternatives
+const globToSource = (glob: string): string => {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const end = glob.indexOf("]", i + 2);
+      const members = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += members.startsWith("!")
+        ? `[^${members.slice(1)}]`
+        : `[${members}]`;
+      i = end;
+    } else if (char === "{" && glob.indexOf("}", i) !== -1) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob
+        .slice(i + 1, end)
+        .split(",")
+        .map(globToSource)
+        .join("|")})`;
+      i = end;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+};
+
+export const globToRegExp = (glob: string): RegExp =>
+  new RegExp(`^${globToSource(glob)}$`);
+
+export const matchesAnyGlob = (globs: RegExp[], filePath: string): boolean =>
+  globs.some((glob) => glob.test(filePath));
+
+interface IgnoreRule {
+  pattern: RegExp;
+  // "!pattern" re-includes what an earlier rule excluded
+  negated: boolean;
+  // "pattern/" only matches directories
+  directoryOnly: boolean;
+}
+
+// Rules of a .gitignore file, matched against paths relative to its
+// directory. A pattern with a slash before its end is anchored there; one
+// without matches at any depth.
+export const parseGitignore = (text: string): IgnoreRule[] =>
+  text.split(/\r?\n/).flatMap((rawLine) => {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) return [];
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    // "\#" and "\!" start patterns with a literal character
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) return [];
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+    return [
+      {
+        pattern: globToRegExp(anchored ? line : `**/${line}`),
+        negated,
+        directoryOnly,
+      },
+    ];
+  });
+
+// The last rule matching the path decides, so later ones override earlier
+// ones; null when none matches
+export const matchGitignore = (
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean
+): boolean | null => {
+  let ignored: boolean | null = null;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.pattern.test(relativePath)) ignored = !rule.negated;
+  }
+  return ignored;
+};
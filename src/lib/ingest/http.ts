@@ -0,0 +1,355 @@
+import axios from "axios";
+import {
+  readFixture,
+  writeFixture,
+  type FixtureOptions,
+  type RecordedResponse,
+} from "./fixtures";
+import { isAllowedByRobots, parseRobotsTxt, type RobotsRules } from "./robots";
+
+// HTTP client shared by the source adapters of a run. Requests to a host are
+// limited in number and spaced out across all sources, 429 and 5xx responses
+// and network failures are retried with exponential backoff or after the
+// server's Retry-After, and URLs a site's robots.txt disallows are never
+// requested. With fixtures, responses are recorded to or replayed from files.
+
+export const DEFAULT_USER_AGENT =
+  "SnippetSearchBot/1.0 (+https://github.com/skarthikeyan96/dev-snippet-search)";
+
+const FEED_ACCEPT =
+  "application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json;q=0.9, */*;q=0.8";
+
+// Response headers kept, and written to fixtures
+const KEPT_HEADERS = ["content-type", "etag", "last-modified", "retry-after"];
+
+export interface HostLimits {
+  // Requests in flight at the same time
+  concurrency?: number;
+  // Pause between the starts of two requests
+  requestDelayMs?: number;
+}
+
+export interface HttpClientOptions {
+  // Names the crawler and where to find out about it; its first word is the
+  // product token matched against robots.txt groups
+  userAgent: string;
+  timeoutMs: number;
+  // Attempts after the first one
+  maxRetries: number;
+  // Delay before the first retry, doubled for each one after it
+  retryDelayMs: number;
+  // A longer Retry-After fails the request instead of waiting for it
+  maxRetryDelayMs: number;
+  concurrencyPerHost: number;
+  requestDelayMs: number;
+  // Overrides of the two above, keyed by hostname
+  hosts: Record<string, HostLimits>;
+  respectRobotsTxt: boolean;
+  fixtures: FixtureOptions | null;
+  log: (message: string) => void;
+}
+
+export const DEFAULT_HTTP_CLIENT_OPTIONS: HttpClientOptions = {
+  userAgent: DEFAULT_USER_AGENT,
+  timeoutMs: 10_000,
+  maxRetries: 3,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 60_000,
+  concurrencyPerHost: 1,
+  requestDelayMs: 2000,
+  hosts: {},
+  respectRobotsTxt: true,
+  fixtures: null,
+  log: console.log,
+};
+
+export type HttpResponse = RecordedResponse;
+
+export interface FeedResponse {
+  // null when the server answered 304 Not Modified
+  body: string | null;
+  etag?: string;
+  lastModified?: string;
+}
+
+// A request that got no usable response. status is missing for requests
+// that were not sent, e.g. disallowed by robots.txt.
+export class HttpError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export const delay = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (
+  value: string | undefined,
+  now = Date.now()
+): number | undefined => {
+  if (!value?.trim()) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const withParams = (
+  url: string,
+  params: Record<string, string | number> = {}
+): string => {
+  const parsed = new URL(url);
+  for (const [name, value] of Object.entries(params)) {
+    parsed.searchParams.set(name, String(value));
+  }
+  return parsed.toString();
+};
+
+// Requests in flight and the spacing of their starts, for one host
+class HostLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+  private nextStartAt = 0;
+
+  constructor(
+    private readonly concurrency: number,
+    private intervalMs: number
+  ) {}
+
+  async acquire(): Promise<void> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + this.intervalMs;
+    if (startAt > now) await delay(startAt - now);
+  }
+
+  release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  // Holds back every request to the host, e.g. after a Retry-After
+  pauseFor(ms: number) {
+    this.nextStartAt = Math.max(this.nextStartAt, Date.now() + ms);
+  }
+
+  // A robots.txt Crawl-delay only ever slows the host down
+  slowDownTo(intervalMs: number) {
+    this.intervalMs = Math.max(this.intervalMs, intervalMs);
+  }
+}
+
+export class HttpClient {
+  private readonly options: HttpClientOptions;
+  private readonly limiters = new Map<string, HostLimiter>();
+  // By origin; null when robots.txt could not be read
+  private readonly robots = new Map<string, Promise<RobotsRules | null>>();
+
+  constructor(options: Partial<HttpClientOptions> = {}) {
+    this.options = { ...DEFAULT_HTTP_CLIENT_OPTIONS, ...options };
+  }
+
+  // Responses other than 2xx and 304 are thrown as HttpError
+  async get(
+    url: string,
+    headers: Record<string, string> = {}
+  ): Promise<HttpResponse> {
+    const { fixtures } = this.options;
+    if (fixtures?.mode === "replay") {
+      const recorded = readFixture(fixtures.dir, url);
+      if (!recorded) {
+        throw new HttpError(
+          `No recorded response for ${url} in ${fixtures.dir}`
+        );
+      }
+      return this.checkStatus(recorded);
+    }
+
+    await this.checkRobots(url);
+    const response = await this.sendWithRetries(url, headers);
+    if (fixtures?.mode === "record") writeFixture(fixtures.dir, response);
+    return this.checkStatus(response);
+  }
+
+  async getJson<T>(
+    url: string,
+    params?: Record<string, string | number>
+  ): Promise<T> {
+    const response = await this.get(withParams(url, params), {
+      Accept: "application/json",
+    });
+    return JSON.parse(response.body) as T;
+  }
+
+  // Conditional GET: the validators of the previous response let the server
+  // skip the body when the feed hasn't changed. Recording always asks for
+  // the body, so that every fixture has one.
+  async getFeed(
+    url: string,
+    validators: { etag?: string; lastModified?: string } = {}
+  ): Promise<FeedResponse> {
+    const conditional = this.options.fixtures?.mode !== "record";
+    const response = await this.get(url, {
+      Accept: FEED_ACCEPT,
+      ...(conditional && validators.etag
+        ? { "If-None-Match": validators.etag }
+        : {}),
+      ...(conditional && validators.lastModified
+        ? { "If-Modified-Since": validators.lastModified }
+        : {}),
+    });
+    return {
+      body: response.status === 304 ? null : response.body,
+      etag: response.headers.etag,
+      lastModified: response.headers["last-modified"],
+    };
+  }
+
+  private checkStatus(response: HttpResponse): HttpResponse {
+    const { status } = response;
+    if ((status >= 200 && status < 300) || status === 304) return response;
+    throw new HttpError(`Request failed with status code ${status}`, status);
+  }
+
+  private getLimiter(hostname: string): HostLimiter {
+    let limiter = this.limiters.get(hostname);
+    if (!limiter) {
+      const limits = this.options.hosts[hostname] ?? {};
+      limiter = new HostLimiter(
+        limits.concurrency ?? this.options.concurrencyPerHost,
+        limits.requestDelayMs ?? this.options.requestDelayMs
+      );
+      this.limiters.set(hostname, limiter);
+    }
+    return limiter;
+  }
+
+  private async send(
+    url: string,
+    headers: Record<string, string>
+  ): Promise<HttpResponse> {
+    const limiter = this.getLimiter(new URL(url).hostname);
+    await limiter.acquire();
+    try {
+      const response = await axios.get<string>(url, {
+        headers: { "User-Agent": this.options.userAgent, ...headers },
+        responseType: "text",
+        // Bodies are parsed by the caller, JSON included
+        transformResponse: (data) => data,
+        timeout: this.options.timeoutMs,
+        validateStatus: () => true,
+      });
+      const kept: Record<string, string> = {};
+      for (const name of KEPT_HEADERS) {
+        const value = response.headers[name];
+        if (typeof value === "string") kept[name] = value;
+      }
+      return {
+        url,
+        status: response.status,
+        headers: kept,
+        body: response.data ?? "",
+      };
+    } finally {
+      limiter.release();
+    }
+  }
+
+  // The final response, retryable or not, once retries run out; throws the
+  // last network error when no attempt got a response
+  private async sendWithRetries(
+    url: string,
+    headers: Record<string, string>
+  ): Promise<HttpResponse> {
+    const { maxRetries, retryDelayMs, maxRetryDelayMs } = this.options;
+    for (let attempt = 0; ; attempt++) {
+      let response: HttpResponse | undefined;
+      let failure: unknown;
+      try {
+        response = await this.send(url, headers);
+        if (!isRetryableStatus(response.status)) return response;
+      } catch (error) {
+        failure = error;
+      }
+
+      const retryAfter = parseRetryAfter(response?.headers["retry-after"]);
+      const wait = retryAfter ?? retryDelayMs * 2 ** attempt;
+      if (attempt >= maxRetries || wait > maxRetryDelayMs) {
+        if (response) return response;
+        throw failure;
+      }
+      if (retryAfter !== undefined) {
+        this.getLimiter(new URL(url).hostname).pauseFor(retryAfter);
+      }
+      this.options.log(
+        `${url} ${
+          response
+            ? `answered ${response.status}`
+            : `failed: ${getErrorMessage(failure)}`
+        }, retrying in ${(wait / 1000).toFixed(1)}s (attempt ${
+          attempt + 1
+        } of ${maxRetries})`
+      );
+      await delay(wait);
+    }
+  }
+
+  private async checkRobots(url: string) {
+    if (!this.options.respectRobotsTxt) return;
+    const { origin, hostname, pathname, search } = new URL(url);
+    if (pathname === "/robots.txt") return;
+    let robots = this.robots.get(origin);
+    if (!robots) {
+      robots = this.fetchRobots(origin, hostname);
+      this.robots.set(origin, robots);
+    }
+    const rules = await robots;
+    if (!rules) {
+      throw new HttpError(`Not requested, ${origin}/robots.txt is unreachable`);
+    }
+    if (!isAllowedByRobots(rules, `${pathname}${search}`)) {
+      throw new HttpError(`Disallowed by ${origin}/robots.txt`);
+    }
+  }
+
+  // A missing robots.txt (4xx) allows everything. One that can't be read
+  // (5xx, network failures) allows nothing, as RFC 9309 asks.
+  private async fetchRobots(
+    origin: string,
+    hostname: string
+  ): Promise<RobotsRules | null> {
+    const url = `${origin}/robots.txt`;
+    try {
+      const response = await this.sendWithRetries(url, {
+        Accept: "text/plain",
+      });
+      if (response.status >= 400 && response.status < 500) {
+        return { rules: [] };
+      }
+      if (response.status >= 300) {
+        this.options.log(`${url} answered ${response.status}`);
+        return null;
+      }
+      const rules = parseRobotsTxt(response.body, this.options.userAgent);
+      if (rules.crawlDelayMs !== undefined) {
+        this.getLimiter(hostname).slowDownTo(rules.crawlDelayMs);
+      }
+      return rules;
+    } catch (error) {
+      this.options.log(`Error fetching ${url}: ${getErrorMessage(error)}`);
+      return null;
+    }
+  }
+}
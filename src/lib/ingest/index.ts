@@ -0,0 +1,7 @@
+export { createAdapter } from "./adapters";
+export { loadIngestState, saveIngestState } from "./checkpoints";
+export { INGEST_CONFIG_FILE, loadIngestConfig } from "./config";
+export { HttpClient, HttpError } from "./http";
+export { mergeDataset } from "./merge";
+export { fetchSources, readDataset, runIngest, writeDataset } from "./pipeline";
+export * from "./types";
@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import type { Snippet } from "../snippet";
+
+// Merges a run's records into the existing dataset. Records are matched by
+// objectID and compared by a hash of their content, so re-fetching an
+// unchanged article is not reported as an update.
+
+const CONTENT_FIELDS: (keyof Snippet)[] = [
+  "title",
+  "snippet",
+  "snippetText",
+  "snippetHtml",
+  "preview",
+  "url",
+  "tags",
+  "source",
+  "publishedAt",
+  "readingTime",
+  "author",
+  "code",
+  "language",
+  "category",
+  "parentID",
+  "heading",
+  "path",
+  "canonicalUrl",
+];
+
+export const getContentHash = (snippet: Snippet): string =>
+  createHash("sha1")
+    .update(
+      JSON.stringify(CONTENT_FIELDS.map((field) => snippet[field] ?? null))
+    )
+    .digest("hex");
+
+export interface MergeResult {
+  snippets: Snippet[];
+  // objectIDs
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+// Existing records stay in place (updated ones replaced), new ones are
+// appended. Records of sources that are no longer configured are removed,
+// and so are records a complete source (a local directory) no longer has.
+export const mergeDataset = (
+  existing: Snippet[],
+  fetched: Snippet[],
+  configuredSources: Set<string>,
+  completeSources: Set<string> = new Set()
+): MergeResult => {
+  const incoming = new Map(
+    fetched.map((snippet) => [snippet.objectID, snippet])
+  );
+  const result: MergeResult = {
+    snippets: [],
+    added: [],
+    updated: [],
+    removed: [],
+  };
+
+  for (const snippet of existing) {
+    if (!configuredSources.has(snippet.source)) {
+      result.removed.push(snippet.objectID);
+      continue;
+    }
+    const update = incoming.get(snippet.objectID);
+    if (!update && completeSources.has(snippet.source)) {
+      result.removed.push(snippet.objectID);
+      continue;
+    }
+    incoming.delete(snippet.objectID);
+    if (update && getContentHash(update) !== getContentHash(snippet)) {
+      result.updated.push(snippet.objectID);
+      result.snippets.push(update);
+    } else {
+      result.snippets.push(snippet);
+    }
+  }
+
+  for (const snippet of Array.from(incoming.values())) {
+    result.added.push(snippet.objectID);
+    result.snippets.push(snippet);
+  }
+  return result;
+};
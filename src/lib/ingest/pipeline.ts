@@ -0,0 +1,182 @@
+import fs from "fs";
+import path from "path";
+import { writeSuggestionFile } from "../search/suggestionIndex";
+import { toSnippet, type Snippet } from "../snippet";
+import { createAdapter } from "./adapters";
+import {
+  createIngestState,
+  loadIngestState,
+  saveIngestState,
+} from "./checkpoints";
+import { clusterDuplicates } from "./duplicates";
+import type { FixtureOptions } from "./fixtures";
+import { HttpClient } from "./http";
+import { mergeDataset } from "./merge";
+import type {
+  IngestChangelog,
+  IngestConfig,
+  IngestState,
+  SourceReport,
+} from "./types";
+
+export interface IngestOptions {
+  // Only run these sources (source facet values); all of them by default
+  sources?: string[];
+  // Ignore checkpoints and fetch everything again
+  full?: boolean;
+  // Record every response to files, or answer requests from them offline
+  fixtures?: FixtureOptions;
+  log?: (message: string) => void;
+}
+
+export interface FetchRun {
+  snippets: Snippet[];
+  reports: SourceReport[];
+  // Sources whose adapters all returned everything they have
+  completeSources: Set<string>;
+}
+
+export interface IngestRun {
+  // The merged dataset, as written to config.output
+  snippets: Snippet[];
+  changelog: IngestChangelog;
+}
+
+export const readDataset = (file: string): Snippet[] => {
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) return [];
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  return (Array.isArray(parsed) ? parsed : []).flatMap(
+    (raw: Record<string, unknown>) => toSnippet(raw) ?? []
+  );
+};
+
+export const writeDataset = (file: string, snippets: Snippet[]) => {
+  fs.writeFileSync(
+    path.resolve(process.cwd(), file),
+    JSON.stringify(snippets, null, 2)
+  );
+};
+
+const appendChangelog = (file: string, changelog: IngestChangelog) => {
+  fs.appendFileSync(
+    path.resolve(process.cwd(), file),
+    `${JSON.stringify(changelog)}\n`
+  );
+};
+
+// Runs the configured adapters and deduplicates their records by objectID;
+// the first adapter in config order wins. Records are brought into the
+// current schema here; adapters add snippetText and snippetHtml, since only
+// they know whether a description is HTML or plain text. Sources are
+// fetched in parallel, requests within a source one after the other, and
+// the HTTP client they share keeps each host's limits across sources.
+// Adapters update their checkpoints in `state`.
+export const fetchSources = async (
+  config: IngestConfig,
+  state: IngestState,
+  { sources, fixtures, log = console.log }: IngestOptions = {}
+): Promise<FetchRun> => {
+  const adapters = config.sources
+    .map(createAdapter)
+    .filter((adapter) => !sources || sources.includes(adapter.source));
+  const http = new HttpClient({
+    ...config.http,
+    requestDelayMs: config.requestDelayMs,
+    fixtures: fixtures ?? null,
+    log: (message) => log(`[http] ${message}`),
+  });
+  const results = await Promise.all(
+    adapters.map((adapter) =>
+      adapter.fetch({
+        http,
+        tagKeywords: config.tagKeywords,
+        state,
+        log: (message) => log(`[${adapter.source}] ${message}`),
+      })
+    )
+  );
+
+  const byId = new Map<string, Snippet>();
+  const reports = new Map<string, SourceReport>();
+  const completeSources = new Set(adapters.map((adapter) => adapter.source));
+  adapters.forEach((adapter, i) => {
+    const { snippets, fetched, failed, unchanged = 0, complete } = results[i];
+    if (!complete) completeSources.delete(adapter.source);
+    // Several config entries may share a source, e.g. two RSS feeds
+    const report = reports.get(adapter.source) ?? {
+      source: adapter.source,
+      fetched: 0,
+      failed: 0,
+      dropped: 0,
+      kept: 0,
+      unchanged: 0,
+      codeBlocks: 0,
+    };
+    report.fetched += fetched;
+    report.failed += failed;
+    report.unchanged += unchanged;
+    for (const snippet of snippets) {
+      if (!byId.has(snippet.objectID)) {
+        byId.set(snippet.objectID, toSnippet({ ...snippet })!);
+        if (snippet.parentID) report.codeBlocks++;
+        else report.kept++;
+      }
+    }
+    report.dropped = report.fetched - report.kept;
+    reports.set(adapter.source, report);
+  });
+
+  return {
+    snippets: Array.from(byId.values()),
+    reports: Array.from(reports.values()),
+    completeSources,
+  };
+};
+
+// Fetches what changed since the last run, merges it into config.output,
+// clusters copies of the same article and appends the run's changes to
+// config.changelogFile. Records are only removed when their source is no
+// longer configured, or is a local directory they are gone from, so partial
+// runs and failing sources leave the rest of the dataset alone.
+export const runIngest = async (
+  config: IngestConfig,
+  options: IngestOptions = {}
+): Promise<IngestRun> => {
+  const state = options.full
+    ? createIngestState()
+    : loadIngestState(config.stateFile);
+  const run = await fetchSources(config, state, options);
+
+  const configuredSources = new Set(
+    config.sources.map((source) => createAdapter(source).source)
+  );
+  const existing = readDataset(config.output);
+  const merged = mergeDataset(
+    existing,
+    run.snippets,
+    configuredSources,
+    run.completeSources
+  );
+  const clustered = clusterDuplicates(merged.snippets);
+  const knownDuplicates = new Set(
+    existing.flatMap((snippet) =>
+      snippet.duplicateOf ? [snippet.objectID] : []
+    )
+  );
+  const changelog: IngestChangelog = {
+    runAt: new Date().toISOString(),
+    added: merged.added,
+    updated: merged.updated,
+    removed: merged.removed,
+    duplicates: clustered.duplicates.filter((id) => !knownDuplicates.has(id)),
+    reports: run.reports,
+  };
+
+  writeDataset(config.output, clustered.snippets);
+  // Autocomplete over the corpus just written
+  writeSuggestionFile();
+  saveIngestState(config.stateFile, state);
+  appendChangelog(config.changelogFile, changelog);
+  return { snippets: clustered.snippets, changelog };
+};
@@ -0,0 +1,115 @@
+// robots.txt parsing and matching (RFC 9309), plus the non-standard
+// Crawl-delay. Only the groups naming the crawler's product token, or the
+// "*" group when none do, apply to it.
+
+interface RobotsRule {
+  allow: boolean;
+  // Path pattern, with "*" wildcards and an optional "$" end anchor
+  pattern: RegExp;
+  // Length of the rule's path, the most specific rule wins
+  length: number;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+const toPattern = (path: string): RegExp => {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+};
+
+// "SnippetSearchBot/1.0 (+https://...)" -> "snippetsearchbot"
+export const getProductToken = (userAgent: string): string =>
+  userAgent.split(/[/\s]/)[0].toLowerCase();
+
+export const parseRobotsTxt = (
+  text: string,
+  userAgent: string
+): RobotsRules => {
+  const groups: RobotsGroup[] = [];
+  let group: RobotsGroup | undefined;
+  // Consecutive user-agent lines share the group that follows them
+  let collectingAgents = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.replace(/#.*/, "").match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+    if (!match) continue;
+    const [, key, value] = match;
+    switch (key.toLowerCase()) {
+      case "user-agent":
+        if (!group || !collectingAgents) {
+          group = { agents: [], rules: [] };
+          groups.push(group);
+        }
+        group.agents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      case "allow":
+      case "disallow":
+        collectingAgents = false;
+        // An empty Disallow allows everything, same as no rule
+        if (group && value) {
+          group.rules.push({
+            allow: key.toLowerCase() === "allow",
+            pattern: toPattern(value),
+            length: value.length,
+          });
+        }
+        break;
+      case "crawl-delay": {
+        collectingAgents = false;
+        const seconds = Number(value);
+        if (group && Number.isFinite(seconds) && seconds >= 0) {
+          group.crawlDelayMs = seconds * 1000;
+        }
+        break;
+      }
+    }
+  }
+
+  const token = getProductToken(userAgent);
+  const named = groups.filter((candidate) => candidate.agents.includes(token));
+  const applying =
+    named.length > 0
+      ? named
+      : groups.filter((candidate) => candidate.agents.includes("*"));
+  const crawlDelays = applying.flatMap((candidate) =>
+    candidate.crawlDelayMs === undefined ? [] : [candidate.crawlDelayMs]
+  );
+  return {
+    rules: applying.flatMap((candidate) => candidate.rules),
+    crawlDelayMs: crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined,
+  };
+};
+
+// Path and query of a URL against the rules: the longest matching rule
+// decides, Allow winning ties, and paths no rule matches are allowed
+export const isAllowedByRobots = (
+  robots: RobotsRules,
+  pathAndQuery: string
+): boolean => {
+  let decisive: RobotsRule | undefined;
+  for (const rule of robots.rules) {
+    if (!rule.pattern.test(pathAndQuery)) continue;
+    if (
+      !decisive ||
+      rule.length > decisive.length ||
+      (rule.length === decisive.length && rule.allow)
+    ) {
+      decisive = rule;
+    }
+  }
+  return decisive?.allow ?? true;
+};
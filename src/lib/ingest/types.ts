@@ -0,0 +1,175 @@
+import type { Snippet } from "../snippet";
+import type { HostLimits, HttpClient } from "./http";
+
+export interface DevToSourceConfig {
+  type: "devto";
+  // dev.to tags to fetch the latest articles for
+  tags: string[];
+  perTag?: number;
+  // Pages fetched per tag and run, counting both new and backfilled pages
+  maxPages?: number;
+  // Fetch the full body of new articles, one request each, and extract their
+  // code blocks into records of their own. On by default.
+  codeBlocks?: boolean;
+}
+
+export interface HashnodeSourceConfig {
+  type: "hashnode";
+  // Hashnode tag slugs, e.g. "web-development"
+  tags: string[];
+  perFeed?: number;
+  // Extract code blocks of the items' full content. On by default.
+  codeBlocks?: boolean;
+}
+
+// Any RSS 2.0, Atom or JSON Feed
+export interface RssSourceConfig {
+  type: "rss";
+  // Source facet value for the feed's records, e.g. "css-tricks"
+  source: string;
+  url: string;
+  limit?: number;
+  // Overrides the config's tagKeywords for this feed
+  tagKeywords?: string[];
+  // Extract code blocks of the items' full content. On by default.
+  codeBlocks?: boolean;
+}
+
+// A directory or git checkout on disk: Markdown notes with their code
+// blocks, and source files picked by glob
+export interface LocalSourceConfig {
+  type: "local";
+  // Source facet value for the directory's records, e.g. "team-notes"
+  source: string;
+  // Relative to the working directory
+  path: string;
+  // Globs of the files to index, relative to path. Markdown files become an
+  // article plus its code blocks, other files one code record each.
+  // Markdown anywhere by default.
+  include?: string[];
+  // Globs of files to leave out, on top of .gitignore
+  exclude?: string[];
+  // URL of a file, with {path}, {line} and, in a git checkout, {commit} and
+  // {branch}: "https://github.com/org/repo/blob/{commit}/{path}#L{line}"
+  permalink?: string;
+  // Added to every record's tags
+  tags?: string[];
+  // Larger files are skipped
+  maxFileBytes?: number;
+  // Extract the code blocks of Markdown files. On by default.
+  codeBlocks?: boolean;
+}
+
+export type SourceConfig =
+  | DevToSourceConfig
+  | HashnodeSourceConfig
+  | RssSourceConfig
+  | LocalSourceConfig;
+
+// How sites are fetched, shared by every source
+export interface HttpConfig {
+  // Sent with every request. Its first word is the crawler's name in
+  // robots.txt groups.
+  userAgent: string;
+  // Requests to one host in flight at the same time
+  concurrencyPerHost: number;
+  // Retries of requests that got a 429 or 5xx response or none at all
+  maxRetries: number;
+  // Skip URLs a site's robots.txt disallows. On by default.
+  respectRobotsTxt: boolean;
+  // Per-host concurrency and requestDelayMs, keyed by hostname
+  hosts: Record<string, HostLimits>;
+}
+
+export interface IngestConfig {
+  // Dataset file the run merges into, relative to the working directory
+  output: string;
+  // Checkpoints of incremental runs
+  stateFile: string;
+  // Added, updated and removed records of each run, one JSON line per run
+  changelogFile: string;
+  // Pause between the starts of two requests to the same host
+  requestDelayMs: number;
+  http: HttpConfig;
+  // Words that become tags when a feed item's title contains them and the
+  // item has no categories of its own
+  tagKeywords: string[];
+  sources: SourceConfig[];
+}
+
+// Where the previous run of a feed left off
+export interface FeedCheckpoint {
+  etag?: string;
+  lastModified?: string;
+  // Newest item seen so far
+  lastPublishedAt?: string;
+}
+
+// Where the previous run of a dev.to tag left off
+export interface DevToCheckpoint {
+  lastPublishedAt?: string;
+  // Page to continue backfilling from, when a run used up its page budget
+  // before reaching articles it had seen before, and the checkpoint at the
+  // time, where backfilling stops
+  resumePage?: number;
+  resumeUntil?: string;
+}
+
+// Persisted between runs. Adapters read and update their own entries.
+export interface IngestState {
+  feeds: Record<string, FeedCheckpoint>;
+  devto: Record<string, DevToCheckpoint>;
+}
+
+export interface IngestContext {
+  // Shared by all sources, so that limits apply per host
+  http: HttpClient;
+  tagKeywords: string[];
+  state: IngestState;
+  log: (message: string) => void;
+}
+
+export interface AdapterResult {
+  // Items and the code block records extracted from them
+  snippets: Snippet[];
+  // Items received from the source, including ones that could not be used
+  fetched: number;
+  // Requests (tags, feeds) that failed
+  failed: number;
+  // Feeds that answered 304 Not Modified
+  unchanged?: number;
+  // The snippets are everything the source has, e.g. a whole directory, so
+  // records of the source that are missing from them were deleted
+  complete?: boolean;
+}
+
+// One content source. Adapters fetch and map records; the pipeline
+// deduplicates and writes them.
+export interface SourceAdapter {
+  // Source facet value of the records, also used in run reports
+  readonly source: string;
+  fetch(context: IngestContext): Promise<AdapterResult>;
+}
+
+export interface SourceReport {
+  source: string;
+  fetched: number;
+  failed: number;
+  // Items that were unusable or duplicates of records already kept
+  dropped: number;
+  kept: number;
+  unchanged: number;
+  // Code block records extracted from the kept items
+  codeBlocks: number;
+}
+
+export interface IngestChangelog {
+  runAt: string;
+  // objectIDs
+  added: string[];
+  updated: string[];
+  removed: string[];
+  // Records newly merged into another copy of the same article
+  duplicates: string[];
+  reports: SourceReport[];
+}
@@ -0,0 +1,53 @@
+// URL canonicalization, so that one article reached through different links
+// ("http://www.site.com/post/?utm_source=rss", "https://site.com/post")
+// gets one objectID and is recognized as the same article across sources.
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAM_PATTERN =
+  /^(?:utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|yclid|_hsenc|_hsmi|ref_src|ref_url)$/i;
+
+// Lowercased host without "www.", https, no default port, fragment, tracking
+// parameters or trailing slash, and the remaining parameters sorted. Values
+// that are not absolute http(s) URLs are returned trimmed but unchanged.
+export const canonicalizeUrl = (value: string): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return value.trim();
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return value.trim();
+  }
+
+  url.protocol = "https:";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !TRACKING_PARAM_PATTERN.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  const pathname = url.pathname.replace(/\/{2,}/g, "/").replace(/\/+$/, "");
+  url.pathname = pathname || "/";
+
+  const canonical = url.toString();
+  // URL keeps a "/" after a bare host; drop it like any other trailing slash
+  return url.pathname === "/" && !url.search
+    ? canonical.replace(/\/$/, "")
+    : canonical;
+};
+
+// href of a <link rel="canonical"> element in an HTML document or fragment
+export const findCanonicalLink = (html: string): string | undefined => {
+  for (const [tag] of Array.from(html.matchAll(/<link\b[^>]*>/gi))) {
+    if (!/\brel\s*=\s*["']?canonical\b/i.test(tag)) continue;
+    const href = tag.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    const value = href?.[1] ?? href?.[2] ?? href?.[3];
+    if (value) return value;
+  }
+  return undefined;
+};
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it, mock } from "node:test";
+import { LruCache } from "../../search/cache";
+import { LlmClient } from "../client";
+import { MockLlmProvider } from "../mockProvider";
+import { LlmError, type LlmProvider, type LlmResponse } from "../types";
+
+const REQUEST = { prompt: "Rewrite: react hooks", maxTokens: 100 };
+
+// Fails the first calls with the given errors, then answers
+const failingWith = (...errors: Error[]) =>
+  new MockLlmProvider(() => {
+    const error = errors.shift();
+    if (error) throw error;
+    return "answer";
+  });
+
+const createClient = (provider: LlmProvider, cache = false) =>
+  new LlmClient(provider, {
+    timeoutMs: 50,
+    maxRetries: 2,
+    retryDelayMs: 1,
+    cache: cache ? new LruCache<LlmResponse>(10, 60_000) : null,
+  });
+
+// Retries are logged
+beforeEach(() => mock.method(console, "warn", () => {}));
+
+describe("LlmClient retries", () => {
+  it("retries 429 and 5xx responses", async () => {
+    const provider = failingWith(
+      new LlmError("rate limited", true, 429),
+      new LlmError("bad gateway", true, 502)
+    );
+    const response = await createClient(provider).complete(REQUEST);
+    assert.equal(response.text, "answer");
+    assert.equal(provider.requests.length, 3);
+  });
+
+  it("retries network failures", async () => {
+    const provider = failingWith(new TypeError("fetch failed"));
+    await createClient(provider).complete(REQUEST);
+    assert.equal(provider.requests.length, 2);
+  });
+
+  it("doesn't retry other 4xx responses", async () => {
+    const provider = failingWith(new LlmError("bad request", false, 400));
+    await assert.rejects(createClient(provider).complete(REQUEST), {
+      name: "LlmError",
+      status: 400,
+    });
+    assert.equal(provider.requests.length, 1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const provider = failingWith(
+      ...[1, 2, 3, 4].map(() => new LlmError("unavailable", true, 503))
+    );
+    await assert.rejects(createClient(provider).complete(REQUEST), {
+      status: 503,
+    });
+    assert.equal(provider.requests.length, 3);
+  });
+
+  it("retries a stream that fails before its first chunk", async () => {
+    const provider = failingWith(new LlmError("overloaded", true, 529));
+    let text = "";
+    for await (const chunk of createClient(provider).stream(REQUEST)) {
+      text += chunk;
+    }
+    assert.equal(text, "answer");
+    assert.equal(provider.requests.length, 2);
+  });
+});
+
+describe("LlmClient timeout", () => {
+  it("aborts calls that run past timeoutMs", async () => {
+    const signals: AbortSignal[] = [];
+    // Never answers, and ignores the abort
+    const provider: LlmProvider = {
+      name: "stalled",
+      model: "stalled",
+      complete: (_request, signal) => {
+        if (signal) signals.push(signal);
+        return new Promise<never>(() => {});
+      },
+    };
+    await assert.rejects(
+      new LlmClient(provider, {
+        timeoutMs: 20,
+        maxRetries: 0,
+        cache: null,
+      }).complete(REQUEST),
+      /timed out after 20ms/
+    );
+    assert.equal(signals.length, 1);
+    assert.ok(signals[0].aborted);
+  });
+
+  it("retries a timed out call", async () => {
+    let calls = 0;
+    const provider: LlmProvider = {
+      name: "slow-once",
+      model: "slow-once",
+      complete: () =>
+        ++calls === 1
+          ? new Promise<never>(() => {})
+          : Promise.resolve({ text: "answer", model: "slow-once" }),
+    };
+    const response = await createClient(provider).complete(REQUEST);
+    assert.equal(response.text, "answer");
+    assert.equal(calls, 2);
+  });
+});
+
+describe("LlmClient cache", () => {
+  it("serves repeated prompts without calling the provider", async () => {
+    const provider = new MockLlmProvider("answer");
+    const client = createClient(provider, true);
+    assert.equal((await client.complete(REQUEST)).cached, undefined);
+    const cached = await client.complete({ ...REQUEST });
+    assert.equal(cached.text, "answer");
+    assert.equal(cached.cached, true);
+    assert.equal(provider.requests.length, 1);
+
+    // Another prompt is a miss
+    await client.complete({ ...REQUEST, prompt: "Rewrite: vue hooks" });
+    assert.equal(provider.requests.length, 2);
+  });
+
+  it("caches streamed answers too", async () => {
+    const provider = new MockLlmProvider("streamed answer");
+    const client = createClient(provider, true);
+    for await (const chunk of client.stream(REQUEST)) void chunk;
+    assert.equal((await client.complete(REQUEST)).text, "streamed answer");
+    assert.equal(provider.requests.length, 1);
+  });
+
+  it("doesn't cache failures", async () => {
+    const provider = failingWith(new LlmError("bad request", false, 400));
+    const client = createClient(provider, true);
+    await assert.rejects(client.complete(REQUEST));
+    assert.equal((await client.complete(REQUEST)).text, "answer");
+    assert.equal(provider.requests.length, 2);
+  });
+});
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractJson } from "../json";
+import {
+  arrayOf,
+  numberField,
+  objectOf,
+  parseJsonResponse,
+  stringField,
+  withDefault,
+} from "../schema";
+
+describe("extractJson", () => {
+  it("parses a bare JSON response", () => {
+    assert.deepEqual(extractJson(' {"query": "react hooks"}\n'), {
+      query: "react hooks",
+    });
+  });
+
+  it("reads fenced JSON", () => {
+    assert.deepEqual(
+      extractJson('Sure!\n```json\n{"tags": ["react"]}\n```\nAnything else?'),
+      { tags: ["react"] }
+    );
+    assert.deepEqual(extractJson("```\n[1, 2]\n```"), [1, 2]);
+  });
+
+  it("finds JSON wrapped in prose", () => {
+    assert.deepEqual(
+      extractJson('Here is the JSON: {"note": "a } in a string"} Done.'),
+      { note: "a } in a string" }
+    );
+  });
+
+  it("skips malformed spans for a later valid one", () => {
+    assert.deepEqual(extractJson('{"query": } or maybe {"query": "x"}'), {
+      query: "x",
+    });
+  });
+
+  it("returns undefined when nothing parses", () => {
+    assert.equal(extractJson("I can't help with that."), undefined);
+    assert.equal(extractJson('{"query": "unterminated'), undefined);
+    assert.equal(extractJson("```json\n{query: x}\n```"), undefined);
+  });
+});
+
+describe("parseJsonResponse", () => {
+  const validate = objectOf({
+    query: stringField({ minLength: 1, maxLength: 20 }),
+    tags: withDefault(arrayOf(stringField(), { maxItems: 2 }), []),
+    confidence: withDefault(numberField({ min: 0, max: 1 }), 0),
+  });
+
+  it("returns the cleaned-up value", () => {
+    assert.deepEqual(
+      parseJsonResponse(
+        '```json\n{"query": " react hooks ", "tags": ["react"], "extra": 1}\n```',
+        validate
+      ),
+      {
+        ok: true,
+        value: { query: "react hooks", tags: ["react"], confidence: 0 },
+      }
+    );
+  });
+
+  it("names the field that doesn't match", () => {
+    assert.deepEqual(parseJsonResponse('{"query": 42}', validate), {
+      ok: false,
+      error: "query: expected a string",
+    });
+    assert.deepEqual(
+      parseJsonResponse('{"query": "x", "tags": ["a", 1]}', validate),
+      { ok: false, error: "tags[1]: expected a string" }
+    );
+    assert.deepEqual(
+      parseJsonResponse('{"query": "x", "confidence": 2}', validate),
+      { ok: false, error: "confidence: must be between 0 and 1" }
+    );
+    assert.deepEqual(parseJsonResponse("[]", validate), {
+      ok: false,
+      error: "value: expected an object",
+    });
+  });
+
+  it("fails without JSON", () => {
+    assert.deepEqual(parseJsonResponse("No idea.", validate), {
+      ok: false,
+      error: "no JSON found in response",
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  isRetryableStatus,
+  LlmError,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+} from "./types";
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-5";
+
+const toLlmError = (error: unknown) =>
+  error instanceof Anthropic.APIError && error.status !== undefined
+    ? new LlmError(
+        `Anthropic request failed: ${error.message}`,
+        isRetryableStatus(error.status),
+        error.status
+      )
+    : error;
+
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = "anthropic";
+  private client: Anthropic | null = null;
+
+  constructor(
+    readonly model: string = DEFAULT_ANTHROPIC_MODEL,
+    private readonly apiKey = process.env.ANTHROPIC_API_KEY
+  ) {}
+
+  // Created on first use: the SDK throws without an API key
+  private getClient(): Anthropic {
+    if (!this.apiKey) {
+      throw new LlmError("ANTHROPIC_API_KEY is not set", false);
+    }
+    if (!this.client) {
+      // Timeouts and retries are handled by LlmClient
+      this.client = new Anthropic({ apiKey: this.apiKey, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  private toParams(request: LlmRequest) {
+    return {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: [{ role: "user" as const, content: request.prompt }],
+    };
+  }
+
+  async complete(
+    request: LlmRequest,
+    signal?: AbortSignal
+  ): Promise<LlmResponse> {
+    const client = this.getClient();
+    try {
+      const response = await client.messages.create(this.toParams(request), {
+        signal,
+      });
+      const text = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+      return { text, model: response.model };
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  }
+
+  async *stream(
+    request: LlmRequest,
+    signal?: AbortSignal
+  ): AsyncIterable<string> {
+    const client = this.getClient();
+    try {
+      const events = await client.messages.create(
+        { ...this.toParams(request), stream: true },
+        { signal }
+      );
+      for await (const event of events) {
+        if (
+          event.type === "content_block_delta" &&
+          event.delta.type === "text_delta"
+        ) {
+          yield event.delta.text;
+        }
+      }
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import { LruCache } from "../search/cache";
+import {
+  LlmError,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+} from "./types";
+
+// Wraps a provider with a per-attempt timeout, bounded retries with
+// exponential backoff for retryable failures, and an in-memory cache of
+// responses keyed by a hash of the model and prompt.
+
+export interface LlmClientOptions {
+  timeoutMs: number;
+  // Attempts after the first one
+  maxRetries: number;
+  // Delay before the first retry, doubled for each one after it
+  retryDelayMs: number;
+  // A null cache turns caching off
+  cache: LruCache<LlmResponse> | null;
+}
+
+export const DEFAULT_LLM_CLIENT_OPTIONS: LlmClientOptions = {
+  timeoutMs: 15_000,
+  maxRetries: 2,
+  retryDelayMs: 500,
+  cache: null,
+};
+
+export const getPromptHash = (provider: LlmProvider, request: LlmRequest) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        provider.name,
+        provider.model,
+        request.system ?? "",
+        request.prompt,
+        request.maxTokens,
+        request.temperature ?? null,
+      ])
+    )
+    .digest("hex");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: unknown) =>
+  // Errors other than LlmError are network failures thrown by fetch or the SDK
+  error instanceof LlmError ? error.retryable : true;
+
+// Uses the provider's stream when it has one, and its complete() otherwise
+export async function* streamCompletion(
+  provider: LlmProvider,
+  request: LlmRequest,
+  signal?: AbortSignal
+): AsyncIterable<string> {
+  if (provider.stream) {
+    yield* provider.stream(request, signal);
+  } else {
+    yield (await provider.complete(request, signal)).text;
+  }
+}
+
+export class LlmClient implements LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly options: LlmClientOptions;
+
+  constructor(
+    private readonly provider: LlmProvider,
+    options: Partial<LlmClientOptions> = {}
+  ) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.options = { ...DEFAULT_LLM_CLIENT_OPTIONS, ...options };
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const key = getPromptHash(this.provider, request);
+    const cached = this.options.cache?.get(key);
+    if (cached) return { ...cached, cached: true };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.completeWithTimeout(request);
+        this.options.cache?.set(key, response);
+        return response;
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        console.warn(
+          `LLM provider "${this.name}" failed (attempt ${
+            attempt + 1
+          }), retrying:`,
+          error instanceof Error ? error.message : error
+        );
+        await sleep(this.options.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  // Streams from the provider with the same cache and retries. timeoutMs
+  // applies to each wait for the next chunk, and a failure is only retried
+  // before any text has been yielded.
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const key = getPromptHash(this.provider, request);
+    const cached = this.options.cache?.get(key);
+    if (cached) {
+      yield cached.text;
+      return;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+      };
+      let text = "";
+
+      try {
+        resetTimer();
+        for await (const chunk of streamCompletion(
+          this.provider,
+          request,
+          controller.signal
+        )) {
+          resetTimer();
+          text += chunk;
+          yield chunk;
+        }
+        this.options.cache?.set(key, { text, model: this.model });
+        return;
+      } catch (error) {
+        const failure = controller.signal.aborted
+          ? new LlmError(
+              `LLM stream stalled for ${this.options.timeoutMs}ms`,
+              true
+            )
+          : error;
+        if (
+          text ||
+          attempt >= this.options.maxRetries ||
+          !isRetryable(failure)
+        ) {
+          throw failure;
+        }
+        console.warn(
+          `LLM provider "${this.name}" stream failed (attempt ${
+            attempt + 1
+          }), retrying:`,
+          failure instanceof Error ? failure.message : failure
+        );
+        await sleep(this.options.retryDelayMs * 2 ** attempt);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  // Aborts the request and rejects once timeoutMs passes, even if the
+  // provider ignores the signal
+  private async completeWithTimeout(request: LlmRequest): Promise<LlmResponse> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(
+          new LlmError(
+            `LLM request timed out after ${this.options.timeoutMs}ms`,
+            true
+          )
+        );
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.provider.complete(request, controller.signal),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { LruCache } from "../search/cache";
+import {
+  AnthropicLlmProvider,
+  DEFAULT_ANTHROPIC_MODEL,
+} from "./anthropicProvider";
+import { LlmClient } from "./client";
+import { MockLlmProvider } from "./mockProvider";
+import {
+  DEFAULT_OPENAI_BASE_URL,
+  DEFAULT_OPENAI_MODEL,
+  OpenAiCompatibleLlmProvider,
+} from "./openAiProvider";
+import type { LlmProvider, LlmProviderName, LlmResponse } from "./types";
+
+const readNumberEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+const providers: Record<LlmProviderName, (model?: string) => LlmProvider> = {
+  anthropic: (model) =>
+    new AnthropicLlmProvider(model || DEFAULT_ANTHROPIC_MODEL),
+  openai: (model) =>
+    new OpenAiCompatibleLlmProvider(
+      model || DEFAULT_OPENAI_MODEL,
+      process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      process.env.LLM_API_KEY || process.env.OPENAI_API_KEY
+    ),
+  mock: () => new MockLlmProvider(),
+};
+
+export const isLlmProviderName = (name: unknown): name is LlmProviderName =>
+  typeof name === "string" && Object.hasOwn(providers, name);
+
+let llmProvider: LlmProvider | null = null;
+
+// LLM_PROVIDER picks the backend (anthropic by default) and LLM_MODEL its
+// model. The result is wrapped in an LlmClient configured by LLM_TIMEOUT_MS,
+// LLM_MAX_RETRIES and the LLM_CACHE_* variables.
+export const getLlmProvider = (): LlmProvider => {
+  if (!llmProvider) {
+    const name = process.env.LLM_PROVIDER || "anthropic";
+    if (!isLlmProviderName(name)) {
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}", expected one of ${Object.keys(
+          providers
+        ).join(", ")}`
+      );
+    }
+    llmProvider = new LlmClient(providers[name](process.env.LLM_MODEL), {
+      timeoutMs: readNumberEnv("LLM_TIMEOUT_MS", 15_000),
+      maxRetries: readNumberEnv("LLM_MAX_RETRIES", 2),
+      cache: new LruCache<LlmResponse>(
+        readNumberEnv("LLM_CACHE_MAX_ENTRIES", 200),
+        readNumberEnv("LLM_CACHE_TTL_SECONDS", 3600) * 1000
+      ),
+    });
+  }
+  return llmProvider;
+};
+
+export { AnthropicLlmProvider } from "./anthropicProvider";
+export { LlmClient, streamCompletion } from "./client";
+export { MockLlmProvider } from "./mockProvider";
+export { OpenAiCompatibleLlmProvider } from "./openAiProvider";
+export * from "./types";
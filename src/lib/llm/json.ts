@@ -0,0 +1,55 @@
+// Finds the JSON value in a model response. Models often wrap it in prose
+// ("Here is the JSON: {...}") or a ```json fence, so the whole text, then
+// each fenced block, then each balanced {...} or [...] span is tried in turn.
+// Returns undefined when nothing parses.
+
+const FENCE_PATTERN = /```[a-zA-Z]*\s*\n?([\s\S]*?)```/g;
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// End index of the bracketed value starting at `start`, skipping brackets
+// inside strings, or -1 when it is never closed
+const findClosingBracket = (text: string, start: number): number => {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      stack.push(char === "{" ? "}" : "]");
+    } else if (char === "}" || char === "]") {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+};
+
+export const extractJson = (text: string): unknown => {
+  const whole = tryParse(text.trim());
+  if (whole !== undefined) return whole;
+
+  for (const [, body] of Array.from(text.matchAll(FENCE_PATTERN))) {
+    const fenced = tryParse(body.trim());
+    if (fenced !== undefined) return fenced;
+  }
+
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== "{" && text[start] !== "[") continue;
+    const end = findClosingBracket(text, start);
+    if (end === -1) continue;
+    const value = tryParse(text.slice(start, end + 1));
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
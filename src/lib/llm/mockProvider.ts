@@ -0,0 +1,30 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+export type MockResponder = string | ((request: LlmRequest) => string);
+
+// Offline stand-in that answers from a fixed responder instead of a model, so
+// code calling the LLM runs without a network or API key. Requests are
+// recorded for inspection. The default answer is an empty JSON object, which
+// callers treat as "no suggestions".
+export class MockLlmProvider implements LlmProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly responder: MockResponder = "{}") {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.requests.push(request);
+    const text =
+      typeof this.responder === "function"
+        ? this.responder(request)
+        : this.responder;
+    return { text, model: this.model };
+  }
+
+  // Streams the same answer a word at a time
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const { text } = await this.complete(request);
+    yield* text.match(/\S+\s*|\s+/g) ?? [];
+  }
+}
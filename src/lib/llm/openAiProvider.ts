@@ -0,0 +1,111 @@
+import {
+  isRetryableStatus,
+  LlmError,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResponse,
+} from "./types";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or
+// local and hosted alternatives (Ollama, vLLM, OpenRouter, ...) via LLM_BASE_URL
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  readonly name = "openai";
+
+  constructor(
+    readonly model: string = DEFAULT_OPENAI_MODEL,
+    private readonly baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+    private readonly apiKey?: string
+  ) {}
+
+  private async post(
+    request: LlmRequest,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const messages = [
+      ...(request.system ? [{ role: "system", content: request.system }] : []),
+      { role: "user", content: request.prompt },
+    ];
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          messages,
+          stream,
+        }),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw new LlmError(
+        `Chat completion request failed with ${response.status}: ${(
+          await response.text()
+        ).slice(0, 200)}`,
+        isRetryableStatus(response.status),
+        response.status
+      );
+    }
+    return response;
+  }
+
+  async complete(
+    request: LlmRequest,
+    signal?: AbortSignal
+  ): Promise<LlmResponse> {
+    const response = await this.post(request, false, signal);
+    const data: ChatCompletionResponse = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content ?? "",
+      model: data.model ?? this.model,
+    };
+  }
+
+  // Reads the server-sent events of a streamed completion
+  async *stream(
+    request: LlmRequest,
+    signal?: AbortSignal
+  ): AsyncIterable<string> {
+    const response = await this.post(request, true, signal);
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+        if (!data) continue;
+        if (data === "[DONE]") return;
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { extractJson } from "./json";
+
+// Minimal runtime schemas for LLM output. A validator returns the value in
+// its typed, cleaned-up form (strings trimmed, unknown keys dropped) or
+// throws a SchemaError naming the offending field.
+
+export class SchemaError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(`${path || "value"}: ${message}`);
+    this.name = "SchemaError";
+  }
+}
+
+export type Validator<T> = (value: unknown, path?: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export const stringField =
+  ({ minLength = 0, maxLength = Infinity } = {}): Validator<string> =>
+  (value, path = "") => {
+    if (typeof value !== "string") {
+      throw new SchemaError(path, "expected a string");
+    }
+    const trimmed = value.trim();
+    if (trimmed.length < minLength) {
+      throw new SchemaError(path, `must be at least ${minLength} characters`);
+    }
+    if (trimmed.length > maxLength) {
+      throw new SchemaError(path, `must be at most ${maxLength} characters`);
+    }
+    return trimmed;
+  };
+
+export const numberField =
+  ({ min = -Infinity, max = Infinity } = {}): Validator<number> =>
+  (value, path = "") => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new SchemaError(path, "expected a number");
+    }
+    if (value < min || value > max) {
+      throw new SchemaError(path, `must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+export const arrayOf =
+  <T>(item: Validator<T>, { maxItems = Infinity } = {}): Validator<T[]> =>
+  (value, path = "") => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, "expected an array");
+    }
+    if (value.length > maxItems) {
+      throw new SchemaError(path, `must have at most ${maxItems} items`);
+    }
+    return value.map((entry, i) => item(entry, `${path}[${i}]`));
+  };
+
+export const objectOf =
+  <S extends Record<string, Validator<unknown>>>(
+    shape: S
+  ): Validator<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path = "") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, "expected an object");
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, validate] of Object.entries(shape)) {
+      result[key] = validate(
+        (value as Record<string, unknown>)[key],
+        path ? `${path}.${key}` : key
+      );
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  };
+
+// Uses the fallback when the field is missing or null
+export const withDefault =
+  <T>(validate: Validator<T>, fallback: T): Validator<T> =>
+  (value, path) =>
+    value === undefined || value === null ? fallback : validate(value, path);
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+// Extracts the JSON from a model response and validates it
+export const parseJsonResponse = <T>(
+  text: string,
+  validate: Validator<T>
+): ParseResult<T> => {
+  const json = extractJson(text);
+  if (json === undefined) {
+    return { ok: false, error: "no JSON found in response" };
+  }
+  try {
+    return { ok: true, value: validate(json) };
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+};
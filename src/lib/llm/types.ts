@@ -0,0 +1,42 @@
+export type LlmProviderName = "anthropic" | "openai" | "mock";
+
+export interface LlmRequest {
+  prompt: string;
+  system?: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  // Model that produced the text, as reported by the provider
+  model: string;
+  // True when served from the prompt cache
+  cached?: boolean;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  // The signal aborts the request, e.g. when it runs past its timeout
+  complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse>;
+  // Yields the text as it is generated. Providers without it are streamed
+  // as a single chunk by streamCompletion.
+  stream?(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+// A failed completion. Retryable errors (timeouts, network failures, 429 and
+// 5xx responses) are tried again by the client, others fail straight away.
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 409 || status === 429 || status >= 500;
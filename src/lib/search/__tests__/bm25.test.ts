@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Bm25Index } from "../bm25";
+
+const FIELDS = [
+  { name: "title", weight: 3 },
+  { name: "body", weight: 1 },
+];
+
+const search = (index: Bm25Index, query: string) =>
+  index.search(query).map(({ doc }) => doc);
+
+describe("Bm25Index", () => {
+  const index = new Bm25Index(
+    [
+      ["Intro to generics", "React hooks appear once in this body"],
+      ["React hooks", "A guide to state in function components"],
+      ["Vue composables", "Like hooks in React, but for Vue"],
+      ["CSS grid", "Layout without React"],
+    ],
+    FIELDS
+  );
+
+  it("matches documents containing every word", () => {
+    assert.deepEqual(search(index, "react hooks ").sort(), [0, 1, 2]);
+    assert.deepEqual(search(index, "grid hooks "), []);
+    assert.deepEqual(search(index, "   "), []);
+  });
+
+  it("ranks title matches above body matches", () => {
+    assert.equal(search(index, "hooks ")[0], 1);
+    const [title, body] = [1, 0].map(
+      (doc) => index.search("hooks ").find((match) => match.doc === doc)!.score
+    );
+    assert.ok(title > body);
+  });
+
+  it("ranks by field weight, not field order", () => {
+    const bodyFirst = new Bm25Index(
+      [
+        ["Intro to generics", "React hooks appear once in this body"],
+        ["React hooks", "A guide to state in function components"],
+      ],
+      [
+        { name: "title", weight: 1 },
+        { name: "body", weight: 5 },
+      ]
+    );
+    assert.deepEqual(search(bodyFirst, "hooks appear "), [0]);
+    const [first] = bodyFirst.search("react ");
+    assert.equal(first.doc, 0);
+  });
+
+  it("scores rarer words higher", () => {
+    const [grid] = index.search("grid ");
+    const [react] = index.search("react ");
+    assert.ok(grid.score > react.score);
+  });
+
+  it("treats the last word as a prefix unless followed by a space", () => {
+    assert.deepEqual(search(index, "compos"), [2]);
+    assert.deepEqual(search(index, "compos "), []);
+    assert.deepEqual(index.search("compos")[0].matchedTerms, ["composables"]);
+    assert.deepEqual(
+      index.search("compos", { prefixLast: false }).map(({ doc }) => doc),
+      []
+    );
+  });
+
+  it("breaks ties by document order", () => {
+    const twins = new Bm25Index([["same text"], ["same text"]], [FIELDS[0]]);
+    assert.deepEqual(search(twins, "same "), [0, 1]);
+  });
+});
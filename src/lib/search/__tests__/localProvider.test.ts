@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { clusterDuplicates } from "../../ingest/duplicates";
+import type { Snippet } from "../../snippet";
+import { countFacets, matchesFilters } from "../localProvider";
+import { parseQuery } from "../queryParser";
+import { parseSearchRequest } from "../request";
+
+const article = (source: string, objectID: string): Snippet => ({
+  objectID,
+  title: "Understanding React Server Components",
+  snippet: "What runs on the server, what ships to the client and why.",
+  url: "https://example.com/react-server-components",
+  tags: ["react"],
+  source,
+  publishedAt: "2025-08-01T00:00:00.000Z",
+});
+
+describe("sources of merged cross-posts", () => {
+  const { snippets } = clusterDuplicates([
+    article("dev.to", "devto-1"),
+    article("hashnode", "hashnode-1"),
+  ]);
+  const merged = snippets.filter((snippet) => !snippet.duplicateOf);
+
+  it("keeps one record listing both sources", () => {
+    assert.equal(merged.length, 1);
+    assert.deepEqual(merged[0].sources, ["dev.to", "hashnode"]);
+  });
+
+  it("matches a filter on either source", () => {
+    assert.ok(matchesFilters(merged[0], { sources: ["dev.to"] }));
+    assert.ok(matchesFilters(merged[0], { sources: ["hashnode"] }));
+    assert.ok(!matchesFilters(merged[0], { sources: ["medium"] }));
+  });
+
+  it("falls back to the source of records without copies", () => {
+    const single = article("medium", "medium-1");
+    assert.ok(matchesFilters(single, { sources: ["medium"] }));
+  });
+
+  it("counts under every source", () => {
+    const { request } = parseSearchRequest(
+      { query: "", facets: ["sources"] },
+      "body"
+    );
+    assert.ok(request);
+    assert.deepEqual(countFacets(merged, request).facets.sources, {
+      "dev.to": 1,
+      hashnode: 1,
+    });
+  });
+
+  it("filters on sources for the source: operator", () => {
+    assert.deepEqual(parseQuery("source:hashnode").filters, {
+      sources: ["hashnode"],
+    });
+  });
+});
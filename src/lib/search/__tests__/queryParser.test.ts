@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DATE_ATTRIBUTE,
+  parseDate,
+  parseQuery,
+  toLiteralQuery,
+  toQueryText,
+} from "../queryParser";
+
+const timestamp = (date: string) => Date.parse(`${date}T00:00:00Z`) / 1000;
+
+describe("parseQuery", () => {
+  it("keeps free text, phrases and exclusions apart", () => {
+    const parsed = parseQuery('custom "use effect" -redux -"class component"');
+    assert.deepEqual(parsed.terms, ["custom"]);
+    assert.deepEqual(parsed.phrases, ["use effect"]);
+    assert.deepEqual(parsed.excludedTerms, ["redux", "class component"]);
+    assert.deepEqual(parsed.errors, []);
+  });
+
+  it("turns facet operators into filters", () => {
+    const parsed = parseQuery("tag:React tag:vue,svelte -tag:angular hooks");
+    assert.deepEqual(parsed.filters, { tags: ["react", "vue", "svelte"] });
+    assert.deepEqual(parsed.excludedFilters, { tags: ["angular"] });
+    assert.deepEqual(parsed.terms, ["hooks"]);
+  });
+
+  it("normalizes language aliases", () => {
+    assert.deepEqual(parseQuery("lang:ts language:JS lang:go").filters, {
+      language: ["typescript", "javascript", "go"],
+    });
+  });
+
+  it("turns date operators into numeric filters", () => {
+    assert.deepEqual(
+      parseQuery("after:2024-06-01 before:2025").numericFilters,
+      [
+        {
+          attribute: DATE_ATTRIBUTE,
+          operator: ">=",
+          value: timestamp("2024-06-01"),
+        },
+        {
+          attribute: DATE_ATTRIBUTE,
+          operator: "<",
+          value: timestamp("2025-01-01"),
+        },
+      ]
+    );
+  });
+
+  it("reports invalid dates and keeps parsing", () => {
+    const parsed = parseQuery(
+      "after:2024-02-30 since:yesterday -until:2024 react"
+    );
+    assert.deepEqual(
+      parsed.errors.map(({ message, token }) => ({ message, token })),
+      [
+        {
+          message: 'Invalid date "2024-02-30" for after:, use YYYY-MM-DD',
+          token: "after:2024-02-30",
+        },
+        {
+          message: 'Invalid date "yesterday" for since:, use YYYY-MM-DD',
+          token: "since:yesterday",
+        },
+        { message: "until: cannot be negated", token: "-until:2024" },
+      ]
+    );
+    assert.deepEqual(parsed.numericFilters, []);
+    assert.deepEqual(parsed.terms, ["react"]);
+  });
+
+  it("reports an empty date range", () => {
+    assert.deepEqual(
+      parseQuery("after:2025 before:2024").errors.map(({ message }) => message),
+      ["after: must be earlier than before:"]
+    );
+  });
+
+  it("reports operators without a value and unclosed quotes", () => {
+    assert.deepEqual(
+      parseQuery('tag: "use effect').errors.map(({ message }) => message),
+      ["tag: needs a value, e.g. tag:react", "Missing closing quote"]
+    );
+  });
+
+  it("keeps unknown and inherited prefixes as text", () => {
+    const parsed = parseQuery(
+      "constructor:x toString:y __proto__:z https://example.com"
+    );
+    assert.deepEqual(parsed.filters, {});
+    assert.deepEqual(parsed.numericFilters, []);
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.terms, [
+      "constructor:x",
+      "toString:y",
+      "__proto__:z",
+      "https://example.com",
+    ]);
+    assert.deepEqual(parseQuery("lang:constructor").filters, {
+      language: ["constructor"],
+    });
+  });
+
+  it("tracks whether the last word is still being typed", () => {
+    assert.equal(parseQuery("react ho").lastTermIsPrefix, true);
+    assert.equal(parseQuery("react ho ").lastTermIsPrefix, false);
+    assert.equal(parseQuery("react tag:vue").lastTermIsPrefix, false);
+  });
+});
+
+describe("parseDate", () => {
+  it("accepts years, months and days", () => {
+    assert.equal(parseDate("2024"), timestamp("2024-01-01"));
+    assert.equal(parseDate("2024-6"), timestamp("2024-06-01"));
+    assert.equal(parseDate("2024-02-29"), timestamp("2024-02-29"));
+  });
+
+  it("rejects dates that don't exist", () => {
+    assert.equal(parseDate("2023-02-29"), null);
+    assert.equal(parseDate("2024-13"), null);
+    assert.equal(parseDate("24-01-01"), null);
+    assert.equal(parseDate("2024/01/01"), null);
+  });
+});
+
+describe("toQueryText", () => {
+  it("drops operators and keeps the advanced syntax", () => {
+    assert.equal(
+      toQueryText(parseQuery('"use effect" -redux hooks tag:react')),
+      '"use effect" -redux hooks '
+    );
+    assert.equal(toQueryText(parseQuery("tag:react hoo")), "hoo");
+  });
+});
+
+describe("toLiteralQuery", () => {
+  it("strips operators, exclusions and quotes", () => {
+    assert.equal(
+      toLiteralQuery('tag:react -hooks "use effect" after:2024'),
+      "react hooks use effect 2024"
+    );
+    assert.equal(toLiteralQuery("  -- "), "");
+  });
+
+  it("leaves the literal query without syntax", () => {
+    const parsed = parseQuery(
+      toLiteralQuery('source:dev.to -"class component"')
+    );
+    assert.deepEqual(parsed.filters, {});
+    assert.deepEqual(parsed.excludedTerms, []);
+    assert.deepEqual(parsed.terms, ["dev.to", "class", "component"]);
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { SUGGESTIONS_FILE } from "../suggestions";
+import { loadSuggestionIndex, writeSuggestionFile } from "../suggestionIndex";
+
+// The corpus files are read from the working directory
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "suggestions-"));
+const cwd = process.cwd();
+process.chdir(dir);
+after(() => {
+  process.chdir(cwd);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const writeCorpus = (titles: string[], mtime: Date) => {
+  const file = path.join(dir, "scraped-snippets.json");
+  fs.writeFileSync(
+    file,
+    JSON.stringify(
+      titles.map((title, i) => ({
+        objectID: `devto-${i}`,
+        title,
+        snippet: "",
+        tags: ["react"],
+        source: "dev.to",
+      }))
+    )
+  );
+  fs.utimesSync(file, mtime, mtime);
+};
+
+const getTitles = () => loadSuggestionIndex().titles.map(({ value }) => value);
+
+describe("loadSuggestionIndex", () => {
+  it("reads the file written for the current corpus", () => {
+    writeCorpus(["Using React hooks"], new Date("2025-01-01"));
+    writeSuggestionFile();
+    const file = JSON.parse(fs.readFileSync(SUGGESTIONS_FILE, "utf-8"));
+    assert.ok(file.corpusSignature);
+    assert.deepEqual(getTitles(), ["Using React hooks"]);
+  });
+
+  it("ignores a file written before the corpus changed", () => {
+    writeCorpus(
+      ["Using React hooks", "React Server Components"],
+      new Date("2025-02-01")
+    );
+    assert.deepEqual(getTitles(), [
+      "Using React hooks",
+      "React Server Components",
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { getAlgoliaIndexName, getAlgoliaSearchClient } from "../algoliaClient";
+import { formatNumericFilter } from "./queryParser";
+import { getSortIndexName } from "./sorting";
+import type {
+  FacetCounts,
+  FacetStats,
+  SearchHit,
+  SearchProvider,
+  SearchRequest,
+  SearchResult,
+} from "./types";
+
+// Converts { source: ["dev.to", "hashnode"] } into Algolia's nested facetFilters
+// array, where inner arrays are OR'ed and outer entries are AND'ed. Exclusions
+// use Algolia's "attribute:-value" negation.
+export const toFacetFilters = (
+  request: Pick<SearchRequest, "filters" | "excludedFilters">
+): string[][] => [
+  ...Object.entries(request.filters)
+    .filter(([, values]) => values.length > 0)
+    .map(([attribute, values]) =>
+      values.map((value) => `${attribute}:${value}`)
+    ),
+  ...Object.entries(request.excludedFilters).flatMap(([attribute, values]) =>
+    values.map((value) => [`${attribute}:-${value}`])
+  ),
+];
+
+export class AlgoliaSearchProvider implements SearchProvider {
+  readonly name = "algolia";
+
+  async search(request: SearchRequest): Promise<SearchResult> {
+    const client = getAlgoliaSearchClient();
+    const response = await client.searchSingleIndex<SearchHit>({
+      // Non-relevance orders are served by replica indices
+      indexName: getSortIndexName(getAlgoliaIndexName(), request.sort),
+      searchParams: {
+        query: request.query,
+        page: request.page,
+        hitsPerPage: request.hitsPerPage,
+        facets: request.facets,
+        facetFilters: toFacetFilters(request),
+        numericFilters: request.numericFilters.map(formatNumericFilter),
+        // Enables "exact phrase" and -exclusion in the query text
+        advancedSyntax: true,
+        highlightPreTag: request.highlightPreTag,
+        highlightPostTag: request.highlightPostTag,
+      },
+    });
+
+    return {
+      hits: response.hits as SearchHit[],
+      facets: (response.facets ?? {}) as FacetCounts,
+      facetsStats: (response.facets_stats ?? {}) as Record<string, FacetStats>,
+      nbHits: response.nbHits ?? 0,
+      nbPages: response.nbPages ?? 0,
+      page: response.page ?? request.page,
+      hitsPerPage: response.hitsPerPage ?? request.hitsPerPage,
+      processingTimeMS: response.processingTimeMS ?? 0,
+    };
+  }
+}
@@ -0,0 +1,204 @@
+import { tokenize } from "./text";
+
+// In-process inverted index with BM25F ranking. Each field keeps its own
+// length normalisation and contributes to a term's frequency with its weight,
+// so a match in the title counts for more than one in the body.
+
+export interface Bm25Field {
+  name: string;
+  weight: number;
+}
+
+export interface Bm25Options {
+  k1?: number;
+  b?: number;
+  // Treat the last query word as a prefix ("reac" matches "react")
+  prefixLast?: boolean;
+  // Upper bound on vocabulary terms a prefix expands to
+  maxPrefixExpansions?: number;
+}
+
+export interface Bm25Match {
+  doc: number;
+  score: number;
+  // Indexed terms that matched, used for highlighting
+  matchedTerms: string[];
+}
+
+interface Posting {
+  doc: number;
+  // Term frequency per field, aligned with the index's field list
+  frequencies: number[];
+}
+
+// Prefix expansions score slightly below an exact match of the same term
+const PREFIX_PENALTY = 0.9;
+
+export class Bm25Index {
+  private readonly fields: Bm25Field[];
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly postings = new Map<string, Posting[]>();
+  private readonly fieldLengths: number[][] = [];
+  private readonly averageFieldLengths: number[];
+  private readonly vocabulary: string[];
+  readonly size: number;
+
+  constructor(
+    documents: string[][],
+    fields: Bm25Field[],
+    options: Pick<Bm25Options, "k1" | "b"> = {}
+  ) {
+    this.fields = fields;
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.size = documents.length;
+
+    const totals = fields.map(() => 0);
+
+    documents.forEach((fieldTexts, doc) => {
+      const termFrequencies = new Map<string, number[]>();
+      const lengths = fields.map((_, fieldIndex) => {
+        const tokens = tokenize(fieldTexts[fieldIndex] ?? "");
+        for (const token of tokens) {
+          let frequencies = termFrequencies.get(token);
+          if (!frequencies) {
+            frequencies = fields.map(() => 0);
+            termFrequencies.set(token, frequencies);
+          }
+          frequencies[fieldIndex]++;
+        }
+        return tokens.length;
+      });
+
+      lengths.forEach((length, fieldIndex) => (totals[fieldIndex] += length));
+      this.fieldLengths.push(lengths);
+
+      for (const [term, frequencies] of termFrequencies) {
+        let list = this.postings.get(term);
+        if (!list) {
+          list = [];
+          this.postings.set(term, list);
+        }
+        list.push({ doc, frequencies });
+      }
+    });
+
+    this.averageFieldLengths = totals.map((total) =>
+      this.size > 0 ? total / this.size || 1 : 1
+    );
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+  }
+
+  private idf(term: string): number {
+    const documentFrequency = this.postings.get(term)?.length ?? 0;
+    return Math.log(
+      1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+  }
+
+  private scorePosting(posting: Posting, idf: number): number {
+    let weightedFrequency = 0;
+    this.fields.forEach((field, fieldIndex) => {
+      const frequency = posting.frequencies[fieldIndex];
+      if (!frequency) return;
+      const lengthRatio =
+        this.fieldLengths[posting.doc][fieldIndex] /
+        this.averageFieldLengths[fieldIndex];
+      weightedFrequency +=
+        (field.weight * frequency) / (1 - this.b + this.b * lengthRatio);
+    });
+    return (idf * weightedFrequency) / (this.k1 + weightedFrequency);
+  }
+
+  // Vocabulary terms starting with `prefix`, found by binary search
+  expandPrefix(prefix: string, limit: number): string[] {
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.vocabulary[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const terms: string[] = [];
+    for (
+      let index = low;
+      index < this.vocabulary.length && terms.length < limit;
+      index++
+    ) {
+      if (!this.vocabulary[index].startsWith(prefix)) break;
+      terms.push(this.vocabulary[index]);
+    }
+    return terms;
+  }
+
+  // Scores one query word: the best scoring of its exact and prefix forms per document
+  private scoreWord(
+    word: string,
+    asPrefix: boolean,
+    maxPrefixExpansions: number
+  ): Map<number, { score: number; term: string }> {
+    const candidates = asPrefix
+      ? this.expandPrefix(word, maxPrefixExpansions)
+      : this.postings.has(word)
+      ? [word]
+      : [];
+
+    const scores = new Map<number, { score: number; term: string }>();
+    for (const term of candidates) {
+      const idf = this.idf(term);
+      const penalty = term === word ? 1 : PREFIX_PENALTY;
+      for (const posting of this.postings.get(term) ?? []) {
+        const score = this.scorePosting(posting, idf) * penalty;
+        const current = scores.get(posting.doc);
+        if (!current || score > current.score) {
+          scores.set(posting.doc, { score, term });
+        }
+      }
+    }
+    return scores;
+  }
+
+  // Returns documents matching every query word, best first. An empty query matches nothing.
+  search(query: string, options: Bm25Options = {}): Bm25Match[] {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+
+    const prefixLast = options.prefixLast ?? true;
+    // A trailing space means the last word is complete
+    const lastIsPrefix = prefixLast && !/\s$/.test(query);
+    const maxPrefixExpansions = options.maxPrefixExpansions ?? 50;
+
+    let matches: Map<number, Bm25Match> | null = null;
+    for (let position = 0; position < words.length; position++) {
+      const isPrefix = lastIsPrefix && position === words.length - 1;
+      const wordScores = this.scoreWord(
+        words[position],
+        isPrefix,
+        maxPrefixExpansions
+      );
+      const next = new Map<number, Bm25Match>();
+
+      for (const [doc, { score, term }] of wordScores) {
+        if (matches === null) {
+          next.set(doc, { doc, score, matchedTerms: [term] });
+          continue;
+        }
+        const previous = matches.get(doc);
+        if (previous) {
+          next.set(doc, {
+            doc,
+            score: previous.score + score,
+            matchedTerms: [...previous.matchedTerms, term],
+          });
+        }
+      }
+      matches = next;
+    }
+
+    return Array.from(matches?.values() ?? []).sort(
+      (a, b) => b.score - a.score || a.doc - b.doc
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { getCorpusSignature } from "./corpus";
+import { formatNumericFilter } from "./queryParser";
+import type { SearchProvider, SearchRequest, SearchResult } from "./types";
+
+// Server-side cache in front of the /api/search providers. Entries expire
+// after a TTL, the least recently used go first when the cache is full, and
+// everything is dropped when the dataset version changes: a new
+// dataset-version.json from scripts/upload-to-algolia.mjs, or new corpus
+// files for the local index.
+
+export const DATASET_VERSION_FILE = "dataset-version.json";
+
+export interface DatasetVersion {
+  version: string;
+  uploadedAt: string;
+  records: number;
+}
+
+export class LruCache<V> {
+  private readonly entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.maxEntries <= 0 || this.ttlMs <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export interface CachedSearch {
+  result: SearchResult;
+  // Weak ETag of the result, stable across cache hits
+  etag: string;
+}
+
+export type CacheStatus = "HIT" | "MISS" | "BYPASS";
+
+const readNumberEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+// SEARCH_CACHE_TTL_SECONDS=0 or SEARCH_CACHE_MAX_ENTRIES=0 disables the cache
+const searchCache = new LruCache<CachedSearch>(
+  readNumberEnv("SEARCH_CACHE_MAX_ENTRIES", 500),
+  readNumberEnv("SEARCH_CACHE_TTL_SECONDS", 300) * 1000
+);
+
+let cachedVersion: string | null = null;
+let versionFile: { mtimeMs: number; version: string } | null = null;
+
+const readUploadedVersion = (): string => {
+  const filePath = path.join(process.cwd(), DATASET_VERSION_FILE);
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    if (versionFile?.mtimeMs !== mtimeMs) {
+      const { version }: DatasetVersion = JSON.parse(
+        fs.readFileSync(filePath, "utf-8")
+      );
+      versionFile = { mtimeMs, version };
+    }
+    return versionFile.version;
+  } catch {
+    return "none";
+  }
+};
+
+export const getDatasetVersion = (): string =>
+  `${readUploadedVersion()}|${getCorpusSignature()}`;
+
+const sortedValues = (filters: Record<string, string[]>) =>
+  Object.keys(filters)
+    .filter((attribute) => filters[attribute].length > 0)
+    .sort()
+    .map((attribute) => [
+      attribute,
+      filters[attribute].map((value) => value.toLowerCase()).sort(),
+    ]);
+
+// Requests that differ only in letter case, spacing or the order of filters
+// share an entry. A trailing space is kept: it turns off prefix matching.
+export const getSearchCacheKey = (
+  request: SearchRequest,
+  providerName: string
+): string => {
+  const query = request.query.replace(/\s+/g, " ").toLowerCase();
+  return JSON.stringify([
+    providerName,
+    query.trimStart(),
+    sortedValues(request.filters),
+    sortedValues(request.excludedFilters),
+    request.numericFilters.map(formatNumericFilter).sort(),
+    [...request.facets].sort(),
+    request.page,
+    request.hitsPerPage,
+    request.sort,
+    request.mode,
+    request.semanticWeight,
+    request.highlightPreTag ?? null,
+    request.highlightPostTag ?? null,
+  ]);
+};
+
+// Timing is left out so the same results always get the same ETag
+const toEtag = (result: SearchResult, version: string) =>
+  `W/"${createHash("sha1")
+    .update(version)
+    .update(JSON.stringify({ ...result, processingTimeMS: 0 }))
+    .digest("base64url")}"`;
+
+export const searchWithCache = async (
+  provider: SearchProvider,
+  request: SearchRequest
+): Promise<CachedSearch & { cacheStatus: CacheStatus }> => {
+  const version = getDatasetVersion();
+  if (version !== cachedVersion) {
+    searchCache.clear();
+    cachedVersion = version;
+  }
+
+  const key = getSearchCacheKey(request, provider.name);
+  const cached = searchCache.get(key);
+  if (cached) return { ...cached, cacheStatus: "HIT" };
+
+  const result = await provider.search(request);
+  const entry = { result, etag: toEtag(result, version) };
+  // Fallback results are not kept, so the primary is tried again next time
+  if (result.provider && result.provider !== provider.name) {
+    return { ...entry, cacheStatus: "BYPASS" };
+  }
+  searchCache.set(key, entry);
+  return { ...entry, cacheStatus: "MISS" };
+};
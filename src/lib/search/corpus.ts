@@ -0,0 +1,66 @@
+import fs from "fs";
+import path from "path";
+import { toSnippet, type Snippet } from "../snippet";
+
+// Loads the local snippet corpus: the scraper output plus the bundled sample
+// dataset. Files are re-read only when their modification time changes.
+
+export const CORPUS_FILES = [
+  "scraped-snippets.json",
+  path.join("public", "dataset.json"),
+];
+
+interface CorpusCache {
+  signature: string;
+  snippets: Snippet[];
+}
+
+let cache: CorpusCache | null = null;
+
+const resolveCorpusPath = (file: string) => path.join(process.cwd(), file);
+
+const readRecords = (filePath: string): Record<string, unknown>[] => {
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && Array.isArray(parsed.snippets)) return parsed.snippets;
+  return [];
+};
+
+// Changes whenever a corpus file is added, removed or rewritten
+export const getCorpusSignature = (): string =>
+  CORPUS_FILES.map((file) => {
+    try {
+      return `${file}:${fs.statSync(resolveCorpusPath(file)).mtimeMs}`;
+    } catch {
+      return `${file}:missing`;
+    }
+  }).join("|");
+
+export const loadCorpus = (): Snippet[] => {
+  const signature = getCorpusSignature();
+  if (cache && cache.signature === signature) {
+    return cache.snippets;
+  }
+
+  const byId = new Map<string, Snippet>();
+  for (const file of CORPUS_FILES) {
+    const filePath = resolveCorpusPath(file);
+    if (!fs.existsSync(filePath)) continue;
+
+    try {
+      for (const raw of readRecords(filePath)) {
+        const snippet = toSnippet(raw);
+        // Copies of an article are represented by the record they were merged into
+        if (snippet?.duplicateOf) continue;
+        if (snippet && !byId.has(snippet.objectID)) {
+          byId.set(snippet.objectID, snippet);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load corpus file ${file}:`, error);
+    }
+  }
+
+  cache = { signature, snippets: Array.from(byId.values()) };
+  return cache.snippets;
+};
@@ -0,0 +1,119 @@
+import type { Snippet } from "../snippet";
+import { toPlainText, tokenize } from "./text";
+
+// Text embeddings for semantic and hybrid search. The default embedder hashes
+// words, word pairs and character trigrams into a fixed-size vector: local,
+// deterministic and CPU-only, so it needs no model download or API key. Real
+// models plug in by implementing EmbeddingProvider and registering below.
+
+export interface EmbeddingProvider {
+  // Stored with the vectors, so queries are embedded by the same model
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Common words that would otherwise dominate the hashed features
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have how i in is it its of on or " +
+    "that the this to was what when where which with without you your"
+  ).split(" ")
+);
+
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+// 32-bit FNV-1a
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+};
+
+export class HashedNgramEmbedder implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(readonly dimensions = 256) {
+    this.name = `hashed-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const featureHash = hash(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      const sign = featureHash >>> 31 === 1 ? -1 : 1;
+      vector[featureHash % this.dimensions] += sign * weight;
+    };
+
+    const words = tokenize(text).filter((word) => !STOPWORDS.has(word));
+    words.forEach((word, i) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      // Trigrams let related forms ("hook", "hooks") share features
+      const padded = `#${word}#`;
+      for (let start = 0; start + 3 <= padded.length; start++) {
+        add(`c:${padded.slice(start, start + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    return normalizeVector(vector);
+  }
+}
+
+const embeddingProviders: Record<string, () => EmbeddingProvider> = {
+  "hashed-ngram": () => new HashedNgramEmbedder(),
+};
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+// EMBEDDING_PROVIDER picks a registered embedder; hashed n-grams by default
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!embeddingProvider) {
+    const name = process.env.EMBEDDING_PROVIDER || "hashed-ngram";
+    // Own keys only, so "constructor" is not an embedder
+    const create = Object.hasOwn(embeddingProviders, name)
+      ? embeddingProviders[name]
+      : undefined;
+    if (!create) {
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER "${name}", expected one of ${Object.keys(
+          embeddingProviders
+        ).join(", ")}`
+      );
+    }
+    embeddingProvider = create();
+  }
+  return embeddingProvider;
+};
+
+// The text a snippet is embedded from
+export const toEmbeddingText = (
+  snippet: Pick<Snippet, "title" | "tags" | "snippet">
+): string =>
+  [snippet.title, snippet.tags.join(" "), toPlainText(snippet.snippet)].join(
+    "\n"
+  );
+
+// Dot product, which is the cosine similarity for unit-length vectors
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+};
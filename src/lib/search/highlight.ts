@@ -0,0 +1,70 @@
+import type { HighlightResult } from "./types";
+import { tokenize } from "./text";
+
+// Builds highlight results in the same shape as Algolia's _highlightResult so
+// the InstantSearch templates render local hits unchanged.
+
+export interface HighlightOptions {
+  preTag: string;
+  postTag: string;
+  // Indexed terms that matched the query (exact or prefix-expanded)
+  matchedTerms: string[];
+}
+
+export const DEFAULT_HIGHLIGHT_PRE_TAG = "<mark>";
+export const DEFAULT_HIGHLIGHT_POST_TAG = "</mark>";
+
+export const highlightValue = (
+  value: string,
+  queryWords: string[],
+  options: HighlightOptions
+): HighlightResult => {
+  const matchedTerms = new Set(options.matchedTerms);
+  const matchedWords = new Set<string>();
+  let highlightedWords = 0;
+  let totalWords = 0;
+
+  // Values come back raw with only the pre/post tags inserted, the shape
+  // Algolia returns; escaping is the client's job (InstantSearch sends its
+  // own tags and escapes everything else). Odd parts of the split are words.
+  const highlighted = value
+    .split(/([A-Za-z0-9À-ɏ]+)/)
+    .map((part, i) => {
+      if (i % 2 === 0) return part;
+      totalWords++;
+      const normalized = tokenize(part).join("");
+      if (!matchedTerms.has(normalized)) return part;
+
+      highlightedWords++;
+      for (const queryWord of queryWords) {
+        if (normalized.startsWith(queryWord)) matchedWords.add(queryWord);
+      }
+      return `${options.preTag}${part}${options.postTag}`;
+    })
+    .join("");
+
+  const matchLevel =
+    matchedWords.size === 0
+      ? "none"
+      : matchedWords.size === queryWords.length
+      ? "full"
+      : "partial";
+
+  return {
+    value: highlighted,
+    matchLevel,
+    matchedWords: Array.from(matchedWords),
+    fullyHighlighted: totalWords > 0 && highlightedWords === totalWords,
+  };
+};
+
+export const highlightAttribute = (
+  value: string | string[],
+  query: string,
+  options: HighlightOptions
+): HighlightResult | HighlightResult[] => {
+  const queryWords = tokenize(query);
+  return Array.isArray(value)
+    ? value.map((item) => highlightValue(item, queryWords, options))
+    : highlightValue(value, queryWords, options);
+};
@@ -0,0 +1,77 @@
+import { isAlgoliaConfigured } from "../algoliaClient";
+import { AlgoliaSearchProvider } from "./algoliaProvider";
+import { LocalSearchProvider } from "./localProvider";
+import type { SearchProvider, SearchRequest, SearchResult } from "./types";
+
+export type SearchProviderName = "algolia" | "local";
+
+const providers: Record<SearchProviderName, () => SearchProvider> = {
+  algolia: () => new AlgoliaSearchProvider(),
+  local: () => new LocalSearchProvider(),
+};
+
+// Serves from the primary provider and retries on the fallback when it fails,
+// e.g. when Algolia is unreachable or rejects the credentials.
+export class FallbackSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly primary: SearchProvider,
+    private readonly fallback: SearchProvider
+  ) {
+    this.name = primary.name;
+  }
+
+  async search(request: SearchRequest): Promise<SearchResult> {
+    try {
+      return await this.primary.search(request);
+    } catch (error) {
+      console.error(
+        `Search provider "${this.primary.name}" failed, falling back to "${this.fallback.name}":`,
+        error
+      );
+      const result = await this.fallback.search(request);
+      return { ...result, provider: this.fallback.name };
+    }
+  }
+}
+
+const instances = new Map<SearchProviderName, SearchProvider>();
+
+const getProviderInstance = (name: SearchProviderName): SearchProvider => {
+  let provider = instances.get(name);
+  if (!provider) {
+    provider = providers[name]();
+    instances.set(name, provider);
+  }
+  return provider;
+};
+
+export const isSearchProviderName = (
+  name: unknown
+): name is SearchProviderName =>
+  typeof name === "string" && Object.hasOwn(providers, name);
+
+// Resolves the provider to use: an explicit name wins, then SEARCH_PROVIDER,
+// then Algolia when it is configured and the local corpus otherwise. Unless a
+// provider was asked for by name, Algolia falls back to the local index.
+export const getSearchProvider = (
+  name?: SearchProviderName
+): SearchProvider => {
+  const envName = process.env.SEARCH_PROVIDER;
+  const resolved: SearchProviderName =
+    name ??
+    (isSearchProviderName(envName)
+      ? envName
+      : isAlgoliaConfigured()
+      ? "algolia"
+      : "local");
+
+  const provider = getProviderInstance(resolved);
+  if (name || resolved === "local") {
+    return provider;
+  }
+  return new FallbackSearchProvider(provider, getProviderInstance("local"));
+};
+
+export * from "./types";
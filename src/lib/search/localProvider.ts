@@ -0,0 +1,322 @@
+import { getSources, type Snippet } from "../snippet";
+import { Bm25Index, type Bm25Field, type Bm25Match } from "./bm25";
+import { loadCorpus } from "./corpus";
+import { cosineSimilarity, getEmbeddingProvider } from "./embeddings";
+import {
+  DEFAULT_HIGHLIGHT_POST_TAG,
+  DEFAULT_HIGHLIGHT_PRE_TAG,
+  highlightAttribute,
+} from "./highlight";
+import { compareNumeric, parseQuery, type ParsedQuery } from "./queryParser";
+import { sortMatches } from "./sorting";
+import { expandIdentifiers, toPlainText, tokenize } from "./text";
+import { loadCorpusVectors } from "./vectorStore";
+import type {
+  FacetCounts,
+  FacetStats,
+  NumericFilter,
+  SearchHit,
+  SearchProvider,
+  SearchRequest,
+  SearchResult,
+} from "./types";
+
+// Same searchable attributes as the Algolia index, in priority order
+const INDEXED_FIELDS: Bm25Field[] = [
+  { name: "title", weight: 3 },
+  { name: "tags", weight: 2 },
+  { name: "snippet", weight: 1 },
+  { name: "code", weight: 1 },
+  { name: "source", weight: 1 },
+];
+
+// The Algolia index's attributesToHighlight. Descriptions are highlighted in
+// their plain text, which the client escapes around the highlight tags.
+const HIGHLIGHTED_FIELDS = ["title", "snippetText", "tags", "source"] as const;
+
+// Records reached only through their embedding need at least this similarity
+const MIN_SEMANTIC_SIMILARITY = 0.2;
+
+interface LocalIndex {
+  corpus: Snippet[];
+  // Plain text of each record's indexed fields, aligned with INDEXED_FIELDS
+  documents: string[][];
+  index: Bm25Index;
+}
+
+let localIndex: LocalIndex | null = null;
+
+// Rebuilds the index whenever the corpus loader hands back a new corpus
+export const getLocalIndex = (): LocalIndex => {
+  const corpus = loadCorpus();
+  if (!localIndex || localIndex.corpus !== corpus) {
+    const documents = corpus.map((record) =>
+      INDEXED_FIELDS.map((field) =>
+        // Code keeps its markup (JSX, generics) and is indexed by identifier
+        field.name === "code"
+          ? expandIdentifiers(record.code ?? "")
+          : toPlainText(getFacetValues(record, field.name).join(" "))
+      )
+    );
+    localIndex = {
+      corpus,
+      documents,
+      index: new Bm25Index(documents, INDEXED_FIELDS),
+    };
+  }
+  return localIndex;
+};
+
+// Facet values for an attribute, flattened so array attributes count once per value
+export const getFacetValues = (
+  record: Snippet,
+  attribute: string
+): string[] => {
+  if (attribute === "sources") return getSources(record);
+  const value = (record as unknown as Record<string, unknown>)[attribute];
+  if (Array.isArray(value)) return value.map(String);
+  if (value === undefined || value === null || value === "") return [];
+  return [String(value)];
+};
+
+const hasValue = (recordValues: string[], value: string) =>
+  recordValues.some(
+    (recordValue) => recordValue.toLowerCase() === value.toLowerCase()
+  );
+
+export const matchesFilters = (
+  record: Snippet,
+  filters: SearchRequest["filters"],
+  ignoreAttribute?: string
+): boolean =>
+  Object.entries(filters).every(([attribute, values]) => {
+    if (attribute === ignoreAttribute || values.length === 0) return true;
+    const recordValues = getFacetValues(record, attribute);
+    return values.some((value) => hasValue(recordValues, value));
+  });
+
+const getNumericValue = (record: Snippet, attribute: string) => {
+  const value = (record as unknown as Record<string, unknown>)[attribute];
+  return typeof value === "number" ? value : undefined;
+};
+
+export const matchesNumericFilters = (
+  record: Snippet,
+  numericFilters: NumericFilter[],
+  ignoreAttribute?: string
+): boolean =>
+  numericFilters.every(({ attribute, operator, value }) => {
+    if (attribute === ignoreAttribute) return true;
+    const recordValue = getNumericValue(record, attribute);
+    return (
+      recordValue !== undefined && compareNumeric(recordValue, operator, value)
+    );
+  });
+
+// All of a request's refinements, optionally ignoring one attribute's own
+// facet and numeric refinements
+export const matchesRequest = (
+  record: Snippet,
+  request: SearchRequest,
+  ignoreAttribute?: string
+): boolean =>
+  matchesFilters(record, request.filters, ignoreAttribute) &&
+  Object.entries(request.excludedFilters).every(
+    ([attribute, values]) =>
+      !values.some((value) =>
+        hasValue(getFacetValues(record, attribute), value)
+      )
+  ) &&
+  matchesNumericFilters(record, request.numericFilters, ignoreAttribute);
+
+// Disjunctive facet counts: each attribute ignores its own refinements so the
+// UI can still show alternative values for an already refined facet. Numeric
+// attributes also get min/max stats for range widgets.
+export const countFacets = (
+  records: Snippet[],
+  request: SearchRequest
+): { facets: FacetCounts; facetsStats: Record<string, FacetStats> } => {
+  const facets: FacetCounts = {};
+  const facetsStats: Record<string, FacetStats> = {};
+
+  for (const attribute of request.facets) {
+    const counts: Record<string, number> = {};
+    const numbers: number[] = [];
+    for (const record of records) {
+      if (!matchesRequest(record, request, attribute)) continue;
+      for (const value of getFacetValues(record, attribute)) {
+        counts[value] = (counts[value] || 0) + 1;
+      }
+      const numericValue = getNumericValue(record, attribute);
+      if (numericValue !== undefined) numbers.push(numericValue);
+    }
+    facets[attribute] = counts;
+
+    if (numbers.length > 0) {
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      facetsStats[attribute] = {
+        min: Math.min(...numbers),
+        max: Math.max(...numbers),
+        avg: sum / numbers.length,
+        sum,
+      };
+    }
+  }
+  return { facets, facetsStats };
+};
+
+const containsSequence = (tokens: string[], sequence: string[]): boolean => {
+  if (sequence.length === 0) return true;
+  for (let start = 0; start + sequence.length <= tokens.length; start++) {
+    if (sequence.every((token, offset) => tokens[start + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Applies the phrase and -exclusion parts of the query text to one document
+const matchesQueryText = (fieldTexts: string[], parsed: ParsedQuery) => {
+  const fieldTokens = fieldTexts.map(tokenize);
+  const allTokens = new Set(fieldTokens.flat());
+
+  return (
+    parsed.phrases.every((phrase) =>
+      fieldTokens.some((tokens) => containsSequence(tokens, tokenize(phrase)))
+    ) &&
+    parsed.excludedTerms.every((term) => {
+      const termTokens = tokenize(term);
+      return termTokens.length > 1
+        ? !fieldTokens.some((tokens) => containsSequence(tokens, termTokens))
+        : !termTokens.every((token) => allTokens.has(token));
+    })
+  );
+};
+
+export const paginate = <T>(items: T[], page: number, hitsPerPage: number) => {
+  const nbPages = hitsPerPage > 0 ? Math.ceil(items.length / hitsPerPage) : 0;
+  const start = page * hitsPerPage;
+  return { items: items.slice(start, start + hitsPerPage), nbPages };
+};
+
+const highlightHit = (
+  record: Snippet,
+  request: SearchRequest,
+  queryText: string,
+  matchedTerms: string[]
+): SearchHit => {
+  const options = {
+    preTag: request.highlightPreTag ?? DEFAULT_HIGHLIGHT_PRE_TAG,
+    postTag: request.highlightPostTag ?? DEFAULT_HIGHLIGHT_POST_TAG,
+    matchedTerms,
+  };
+
+  const highlightResult: SearchHit["_highlightResult"] = {};
+  for (const field of HIGHLIGHTED_FIELDS) {
+    const value = record[field];
+    if (value !== undefined) {
+      highlightResult[field] = highlightAttribute(value, queryText, options);
+    }
+  }
+  return { ...record, _highlightResult: highlightResult };
+};
+
+// Ranks the corpus by embedding similarity to the query, blended with the
+// BM25 scores (normalized to the best match) by request.semanticWeight.
+// Semantic mode uses similarity alone.
+const rankSemantic = async (
+  corpus: Snippet[],
+  lexical: Bm25Match[],
+  queryText: string,
+  request: SearchRequest
+): Promise<Bm25Match[]> => {
+  const { corpus: vectorCorpus, vectors } = await loadCorpusVectors();
+  // The corpus changed on disk in between; rank this request by keywords
+  if (vectorCorpus !== corpus) return lexical;
+
+  const [queryVector] = await getEmbeddingProvider().embed([queryText]);
+  const weight = request.mode === "semantic" ? 1 : request.semanticWeight;
+  const lexicalByDoc = new Map(lexical.map((match) => [match.doc, match]));
+  const maxLexicalScore = Math.max(0, ...lexical.map((match) => match.score));
+
+  const ranked: Bm25Match[] = [];
+  vectors.forEach((vector, doc) => {
+    const similarity = Math.max(0, cosineSimilarity(queryVector, vector));
+    const match = lexicalByDoc.get(doc);
+    if (!match && similarity < MIN_SEMANTIC_SIMILARITY) return;
+
+    const lexicalScore =
+      match && maxLexicalScore > 0 ? match.score / maxLexicalScore : 0;
+    ranked.push({
+      doc,
+      score: (1 - weight) * lexicalScore + weight * similarity,
+      matchedTerms: match?.matchedTerms ?? [],
+    });
+  });
+  return ranked.sort((a, b) => b.score - a.score);
+};
+
+export class LocalSearchProvider implements SearchProvider {
+  readonly name = "local";
+
+  async search(request: SearchRequest): Promise<SearchResult> {
+    const startedAt = Date.now();
+    const { corpus, documents, index } = getLocalIndex();
+
+    // Phrase words are ranked like any other word, then checked for adjacency
+    const parsed = parseQuery(request.query);
+    const positiveWords = [...parsed.phrases, ...parsed.terms];
+    const queryText =
+      positiveWords.join(" ") + (parsed.lastTermIsPrefix ? "" : " ");
+
+    // A query without positive words browses the whole corpus in stored order
+    let candidates: Bm25Match[];
+    if (positiveWords.length === 0) {
+      candidates = corpus.map((_, doc) => ({
+        doc,
+        score: 0,
+        matchedTerms: [],
+      }));
+    } else {
+      const lexical =
+        request.mode === "semantic" ? [] : index.search(queryText);
+      candidates =
+        request.mode === "keyword"
+          ? lexical
+          : await rankSemantic(corpus, lexical, queryText, request);
+    }
+
+    const scored = candidates
+      .filter(({ doc }) => matchesQueryText(documents[doc], parsed))
+      .map((candidate) => ({ ...candidate, record: corpus[candidate.doc] }));
+
+    const { facets, facetsStats } = countFacets(
+      scored.map(({ record }) => record),
+      request
+    );
+
+    const matches = sortMatches(
+      scored.filter(({ record }) => matchesRequest(record, request)),
+      request.sort
+    );
+
+    const { items, nbPages } = paginate(
+      matches,
+      request.page,
+      request.hitsPerPage
+    );
+
+    return {
+      hits: items.map(({ record, matchedTerms }) =>
+        highlightHit(record, request, queryText, matchedTerms)
+      ),
+      facets,
+      facetsStats,
+      nbHits: matches.length,
+      nbPages,
+      page: request.page,
+      hitsPerPage: request.hitsPerPage,
+      processingTimeMS: Date.now() - startedAt,
+    };
+  }
+}
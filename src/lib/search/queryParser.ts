@@ -0,0 +1,338 @@
+import type { NumericFilter, NumericOperator, SearchRequest } from "./types";
+
+// Parses the search box syntax shared by the UI and /api/search:
+//
+//   tag:react source:dev.to lang:ts -redux "custom hook" after:2024-06-01
+//
+// Operators become facet and numeric filters, "-word" and -tag:x become
+// exclusions, quoted text becomes a phrase and everything else stays free
+// text. Repeating an operator ORs its values (tag:react tag:vue), as does a
+// comma separated list (tag:react,vue).
+
+export interface QueryParseError {
+  message: string;
+  // The offending piece of the query and where it starts
+  token: string;
+  index: number;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  filters: Record<string, string[]>;
+  excludedFilters: Record<string, string[]>;
+  numericFilters: NumericFilter[];
+  // True when the query ends in a free-text word that is still being typed
+  lastTermIsPrefix: boolean;
+  errors: QueryParseError[];
+}
+
+// Facet operators and the record attribute each one filters on
+export const FACET_OPERATORS: Record<string, string> = {
+  tag: "tags",
+  tags: "tags",
+  source: "sources",
+  sources: "sources",
+  lang: "language",
+  language: "language",
+  author: "author",
+  category: "category",
+};
+
+// Date operators filter on the numeric publishedAtTimestamp attribute
+const DATE_OPERATORS: Record<string, NumericOperator> = {
+  after: ">=",
+  since: ">=",
+  before: "<",
+  until: "<",
+};
+
+export const DATE_ATTRIBUTE = "publishedAtTimestamp";
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  sh: "bash",
+  shell: "bash",
+  yml: "yaml",
+};
+
+// Tables are looked up with words from the query, which must not reach
+// inherited keys such as "constructor"
+const getOwn = <T>(table: Record<string, T>, key: string): T | undefined =>
+  Object.hasOwn(table, key) ? table[key] : undefined;
+
+// Attribute a facet operator ("tag", "lang") filters on
+export const getFacetAttribute = (operator: string): string | undefined =>
+  getOwn(FACET_OPERATORS, operator);
+
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)("?)|(\S+))/g;
+
+// Parses YYYY-MM-DD, YYYY-MM or YYYY into a UTC timestamp in seconds
+export const parseDate = (value: string): number | null => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : 1;
+  const day = match[3] ? Number(match[3]) : 1;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return Math.floor(date.getTime() / 1000);
+};
+
+const normalizeFacetValue = (attribute: string, value: string): string => {
+  const lowered = value.toLowerCase();
+  return attribute === "language"
+    ? getOwn(LANGUAGE_ALIASES, lowered) ?? lowered
+    : lowered;
+};
+
+const addValue = (
+  target: Record<string, string[]>,
+  attribute: string,
+  value: string
+) => {
+  const values = target[attribute] || [];
+  if (!values.includes(value)) {
+    target[attribute] = [...values, value];
+  }
+};
+
+export const parseQuery = (raw: string): ParsedQuery => {
+  const parsed: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    filters: {},
+    excludedFilters: {},
+    numericFilters: [],
+    lastTermIsPrefix: false,
+    errors: [],
+  };
+
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(raw)) !== null) {
+    const token = match[0];
+    const negated = match[1] === "-";
+    const quoted = match[3];
+    const closingQuote = match[4];
+    let operatorName = match[2];
+    let bare = match[5];
+
+    // "tag:" with nothing after it is an operator missing its value
+    const emptyOperator = bare && /^([a-zA-Z]+):$/.exec(bare);
+    if (!operatorName && emptyOperator) {
+      const name = emptyOperator[1].toLowerCase();
+      if (getFacetAttribute(name) || getOwn(DATE_OPERATORS, name)) {
+        operatorName = emptyOperator[1];
+        bare = "";
+      }
+    }
+    const value = quoted ?? bare ?? "";
+    const isLast = TOKEN_PATTERN.lastIndex === raw.length;
+    parsed.lastTermIsPrefix = false;
+
+    if (quoted !== undefined && !closingQuote) {
+      parsed.errors.push({
+        message: "Missing closing quote",
+        token,
+        index: match.index,
+      });
+    }
+
+    if (operatorName) {
+      const operator = operatorName.toLowerCase();
+      const attribute = getFacetAttribute(operator);
+      const dateOperator = getOwn(DATE_OPERATORS, operator);
+
+      if (attribute) {
+        const values = value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+        if (values.length === 0) {
+          parsed.errors.push({
+            message: `${operator}: needs a value, e.g. ${operator}:react`,
+            token,
+            index: match.index,
+          });
+          continue;
+        }
+        for (const item of values) {
+          addValue(
+            negated ? parsed.excludedFilters : parsed.filters,
+            attribute,
+            normalizeFacetValue(attribute, item)
+          );
+        }
+        continue;
+      }
+
+      if (dateOperator) {
+        const timestamp = parseDate(value);
+        if (negated) {
+          parsed.errors.push({
+            message: `${operator}: cannot be negated`,
+            token,
+            index: match.index,
+          });
+        } else if (timestamp === null) {
+          parsed.errors.push({
+            message: `Invalid date "${value}" for ${operator}:, use YYYY-MM-DD`,
+            token,
+            index: match.index,
+          });
+        } else {
+          parsed.numericFilters.push({
+            attribute: DATE_ATTRIBUTE,
+            operator: dateOperator,
+            value: timestamp,
+          });
+        }
+        continue;
+      }
+      // Unknown prefixes such as "http:" are plain text
+    }
+
+    const text = operatorName ? `${operatorName}:${value}` : value;
+    if (quoted !== undefined && !operatorName) {
+      if (!text.trim()) continue;
+      if (negated) parsed.excludedTerms.push(text.trim());
+      else parsed.phrases.push(text.trim());
+    } else if (negated && text) {
+      parsed.excludedTerms.push(text);
+    } else if (text) {
+      parsed.terms.push(text);
+      parsed.lastTermIsPrefix = isLast;
+    }
+  }
+
+  const after = parsed.numericFilters.find(
+    (filter) => filter.operator === ">="
+  );
+  const before = parsed.numericFilters.find(
+    (filter) => filter.operator === "<"
+  );
+  if (after && before && after.value >= before.value) {
+    parsed.errors.push({
+      message: "after: must be earlier than before:",
+      token: "",
+      index: 0,
+    });
+  }
+
+  return parsed;
+};
+
+const quote = (text: string) => (/\s/.test(text) ? `"${text}"` : text);
+
+// Rebuilds the free-text part of a parsed query in Algolia's advanced syntax
+// ("phrase", -word), dropping the operators that became filters.
+export const toQueryText = (parsed: ParsedQuery): string => {
+  const text = [
+    ...parsed.phrases.map((phrase) => `"${phrase}"`),
+    ...parsed.excludedTerms.map((term) => `-${quote(term)}`),
+    ...parsed.terms,
+  ].join(" ");
+  // A trailing space keeps a finished last word from being prefix matched
+  return parsed.terms.length > 0 && !parsed.lastTermIsPrefix
+    ? `${text} `
+    : text;
+};
+
+// Text searched as plain words, for queries that must not carry operators
+// (model output): quotes, leading "-" and "operator:" prefixes are dropped,
+// so "tag:react -hooks" becomes "react hooks"
+export const toLiteralQuery = (text: string): string =>
+  text
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .map((word) => word.replace(/^-+/, "").replace(/^[a-zA-Z]+:/, ""))
+    .filter(Boolean)
+    .join(" ");
+
+const NUMERIC_FILTER_PATTERN =
+  /^\s*([\w.]+)\s*(<=|>=|!=|<|>|=)\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+// Parses Algolia numeric filter strings such as "readingTime<=5"
+export const parseNumericFilter = (filter: string): NumericFilter | null => {
+  const match = NUMERIC_FILTER_PATTERN.exec(filter);
+  if (!match) return null;
+  return {
+    attribute: match[1],
+    operator: match[2] as NumericOperator,
+    value: Number(match[3]),
+  };
+};
+
+export const formatNumericFilter = (filter: NumericFilter): string =>
+  `${filter.attribute}${filter.operator}${filter.value}`;
+
+export const compareNumeric = (
+  value: number,
+  operator: NumericOperator,
+  target: number
+): boolean => {
+  switch (operator) {
+    case "<":
+      return value < target;
+    case "<=":
+      return value <= target;
+    case "=":
+      return value === target;
+    case "!=":
+      return value !== target;
+    case ">=":
+      return value >= target;
+    case ">":
+      return value > target;
+  }
+};
+
+const mergeValues = (
+  target: Record<string, string[]>,
+  source: Record<string, string[]>
+): Record<string, string[]> => {
+  const merged = { ...target };
+  for (const [attribute, values] of Object.entries(source)) {
+    merged[attribute] = Array.from(
+      new Set([...(merged[attribute] || []), ...values])
+    );
+  }
+  return merged;
+};
+
+// Moves the operators in request.query into the request's filters. Parse
+// errors are returned alongside so callers can surface them; the rest of the
+// query still runs.
+export const applyQuerySyntax = (
+  request: SearchRequest
+): { request: SearchRequest; errors: QueryParseError[] } => {
+  const parsed = parseQuery(request.query);
+  return {
+    request: {
+      ...request,
+      query: toQueryText(parsed),
+      filters: mergeValues(request.filters, parsed.filters),
+      excludedFilters: mergeValues(
+        request.excludedFilters,
+        parsed.excludedFilters
+      ),
+      numericFilters: [...request.numericFilters, ...parsed.numericFilters],
+    },
+    errors: parsed.errors,
+  };
+};
@@ -0,0 +1,128 @@
+import type { Snippet } from "../snippet";
+import { loadCorpus } from "./corpus";
+import { normalizeTerm, toPlainText, tokenize } from "./text";
+
+// "More like this" over the local corpus: TF-IDF cosine similarity of the
+// title, tags and body, blended with the overlap of the two tag sets.
+
+export interface RelatedSnippet {
+  record: Snippet;
+  score: number;
+  sharedTags: string[];
+}
+
+export const DEFAULT_RELATED_LIMIT = 5;
+
+// Share of the score that comes from tag overlap (Jaccard) vs. text cosine
+const TAG_WEIGHT = 0.4;
+
+// Term frequency multipliers, in line with the search index's field weights
+const FIELD_WEIGHTS = { title: 3, tags: 2, snippet: 1 };
+
+type TermVector = Map<string, number>;
+
+interface RelatedIndex {
+  corpus: Snippet[];
+  vectors: TermVector[];
+  tagSets: Set<string>[];
+  positions: Map<string, number>;
+}
+
+let relatedIndex: RelatedIndex | null = null;
+
+const getTermFrequencies = (record: Snippet): TermVector => {
+  const frequencies: TermVector = new Map();
+  const add = (text: string, weight: number) => {
+    for (const term of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+    }
+  };
+  add(record.title, FIELD_WEIGHTS.title);
+  add(record.tags.join(" "), FIELD_WEIGHTS.tags);
+  add(toPlainText(record.snippet), FIELD_WEIGHTS.snippet);
+  return frequencies;
+};
+
+// Unit-length TF-IDF vectors, so cosine similarity is a plain dot product
+const buildRelatedIndex = (corpus: Snippet[]): RelatedIndex => {
+  const frequencies = corpus.map(getTermFrequencies);
+  const documentFrequencies = new Map<string, number>();
+  for (const vector of frequencies) {
+    for (const term of vector.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  const vectors = frequencies.map((vector) => {
+    const weighted: TermVector = new Map();
+    let norm = 0;
+    vector.forEach((frequency, term) => {
+      const idf = Math.log(corpus.length / documentFrequencies.get(term)!);
+      const weight = (1 + Math.log(frequency)) * idf;
+      if (weight > 0) {
+        weighted.set(term, weight);
+        norm += weight * weight;
+      }
+    });
+    norm = Math.sqrt(norm);
+    weighted.forEach((weight, term) => weighted.set(term, weight / norm));
+    return weighted;
+  });
+
+  return {
+    corpus,
+    vectors,
+    tagSets: corpus.map((record) => new Set(record.tags.map(normalizeTerm))),
+    positions: new Map(corpus.map((record, i) => [record.objectID, i])),
+  };
+};
+
+const getRelatedIndex = (): RelatedIndex => {
+  const corpus = loadCorpus();
+  if (!relatedIndex || relatedIndex.corpus !== corpus) {
+    relatedIndex = buildRelatedIndex(corpus);
+  }
+  return relatedIndex;
+};
+
+const cosine = (a: TermVector, b: TermVector): number => {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.forEach((weight, term) => {
+    dot += weight * (larger.get(term) ?? 0);
+  });
+  return dot;
+};
+
+// Returns null when objectID is not in the corpus
+export const findRelatedSnippets = (
+  objectID: string,
+  limit = DEFAULT_RELATED_LIMIT
+): RelatedSnippet[] | null => {
+  const { corpus, vectors, tagSets, positions } = getRelatedIndex();
+  const position = positions.get(objectID);
+  if (position === undefined) return null;
+
+  const source = corpus[position];
+  const sourceTitle = normalizeTerm(source.title);
+  const sourceTags = tagSets[position];
+  const related: RelatedSnippet[] = [];
+
+  corpus.forEach((record, i) => {
+    // Skip the snippet itself and copies of it from other feeds
+    if (i === position || normalizeTerm(record.title) === sourceTitle) return;
+
+    const sharedTags = record.tags.filter((tag) =>
+      sourceTags.has(normalizeTerm(tag))
+    );
+    const tagUnion = sourceTags.size + tagSets[i].size - sharedTags.length;
+    const tagOverlap = tagUnion > 0 ? sharedTags.length / tagUnion : 0;
+    const score =
+      (1 - TAG_WEIGHT) * cosine(vectors[position], vectors[i]) +
+      TAG_WEIGHT * tagOverlap;
+
+    if (score > 0) related.push({ record, score, sharedTags });
+  });
+
+  return related.sort((a, b) => b.score - a.score).slice(0, limit);
+};
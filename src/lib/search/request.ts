@@ -0,0 +1,158 @@
+import { parseNumericFilter } from "./queryParser";
+import { isSortOrder, SORT_OPTIONS } from "./sorting";
+import {
+  DEFAULT_HITS_PER_PAGE,
+  DEFAULT_SEMANTIC_WEIGHT,
+  MAX_HITS_PER_PAGE,
+  SEARCH_MODES,
+  type NumericFilter,
+  type SearchMode,
+  type SearchRequest,
+} from "./types";
+
+// Builds a SearchRequest from a JSON body or query string. Query strings use
+// `q`, comma separated `facets` and repeated `filter=attribute:value`,
+// `exclude=attribute:value` and `numericFilter=attribute>=value` params, plus
+// `sort=relevance|newest|shortest`, `mode=keyword|semantic|hybrid` and
+// `semanticWeight=0..1`.
+
+const DEFAULT_FACETS = ["sources", "tags"];
+
+const toInteger = (value: unknown, fallback: number): number => {
+  const parsed =
+    typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return [];
+};
+
+const parseFilterParams = (value: unknown): Record<string, string[]> => {
+  const filters: Record<string, string[]> = {};
+  for (const entry of toArray(value)) {
+    const separator = String(entry).indexOf(":");
+    if (separator <= 0) continue;
+    const attribute = String(entry).slice(0, separator);
+    const facetValue = String(entry).slice(separator + 1);
+    filters[attribute] = [...(filters[attribute] || []), facetValue];
+  }
+  return filters;
+};
+
+const toArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+const parseNumericFilters = (value: unknown): NumericFilter[] | null => {
+  const filters: NumericFilter[] = [];
+  for (const entry of toArray(value)) {
+    const filter = parseNumericFilter(String(entry));
+    if (!filter) return null;
+    filters.push(filter);
+  }
+  return filters;
+};
+
+const parseFilterObject = (value: unknown): Record<string, string[]> => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const filters: Record<string, string[]> = {};
+  for (const [attribute, values] of Object.entries(value)) {
+    filters[attribute] = toList(values);
+  }
+  return filters;
+};
+
+export const parseSearchRequest = (
+  input: Record<string, unknown>,
+  source: "body" | "query"
+): { request?: SearchRequest; error?: string } => {
+  const query = source === "query" ? input.q : input.query;
+
+  if (typeof query !== "string") {
+    return { error: "Query is required" };
+  }
+
+  const page = toInteger(input.page, 0);
+  const hitsPerPage = toInteger(input.hitsPerPage, DEFAULT_HITS_PER_PAGE);
+  if (page < 0) {
+    return { error: "page must be zero or greater" };
+  }
+  // Zero is allowed for facet-only requests, as in Algolia
+  if (hitsPerPage < 0 || hitsPerPage > MAX_HITS_PER_PAGE) {
+    return { error: `hitsPerPage must be between 0 and ${MAX_HITS_PER_PAGE}` };
+  }
+
+  const facets =
+    input.facets === undefined ? DEFAULT_FACETS : toList(input.facets);
+  const filters =
+    source === "query"
+      ? parseFilterParams(input.filter)
+      : parseFilterObject(input.filters);
+  const excludedFilters =
+    source === "query"
+      ? parseFilterParams(input.exclude)
+      : parseFilterObject(input.excludedFilters);
+
+  const numericFilters = parseNumericFilters(
+    source === "query" ? input.numericFilter : input.numericFilters
+  );
+  if (!numericFilters) {
+    return {
+      error: 'numeric filters must look like "attribute>=value"',
+    };
+  }
+
+  const sort = input.sort ?? "relevance";
+  if (!isSortOrder(sort)) {
+    return {
+      error: `sort must be one of ${SORT_OPTIONS.map(
+        (option) => option.value
+      ).join(", ")}`,
+    };
+  }
+
+  const mode = input.mode ?? "keyword";
+  if (!SEARCH_MODES.includes(mode as SearchMode)) {
+    return { error: `mode must be one of ${SEARCH_MODES.join(", ")}` };
+  }
+
+  const semanticWeight =
+    input.semanticWeight === undefined
+      ? DEFAULT_SEMANTIC_WEIGHT
+      : Number(input.semanticWeight);
+  if (
+    !Number.isFinite(semanticWeight) ||
+    semanticWeight < 0 ||
+    semanticWeight > 1
+  ) {
+    return { error: "semanticWeight must be between 0 and 1" };
+  }
+
+  const request: SearchRequest = {
+    query,
+    page,
+    hitsPerPage,
+    facets,
+    filters,
+    excludedFilters,
+    numericFilters,
+    sort,
+    mode: mode as SearchMode,
+    semanticWeight,
+  };
+  if (typeof input.highlightPreTag === "string") {
+    request.highlightPreTag = input.highlightPreTag;
+  }
+  if (typeof input.highlightPostTag === "string") {
+    request.highlightPostTag = input.highlightPostTag;
+  }
+
+  return { request };
+};
@@ -0,0 +1,105 @@
+import type { UiState } from "instantsearch.js";
+import { history } from "instantsearch.js/es/lib/routers";
+import { getSortFromIndexName, getSortIndexName, isSortOrder } from "./sorting";
+
+// Keeps the search page URL in sync with the InstantSearch state, so a search
+// can be shared or bookmarked and back/forward restore earlier searches:
+//
+//   /search?q=custom+hook&source=dev.to&tags=react&sort=newest&page=2
+//
+// Repeated parameters (tags=react&tags=hooks) select several values.
+
+export interface SearchRouteState {
+  q?: string;
+  source?: string[];
+  tags?: string[];
+  language?: string[];
+  author?: string[];
+  sort?: string;
+  page?: number;
+}
+
+// refinementList attributes mirrored into the URL, keyed by parameter name.
+// Sources are refined on "sources", which lists every copy's source.
+const ROUTED_FACETS = {
+  source: "sources",
+  tags: "tags",
+  language: "language",
+  author: "author",
+} as const;
+
+const ROUTED_PARAMS = Object.keys(
+  ROUTED_FACETS
+) as (keyof typeof ROUTED_FACETS)[];
+
+const toValues = (value: unknown): string[] | undefined => {
+  const values = (Array.isArray(value) ? value : [value]).filter(
+    (item): item is string => typeof item === "string" && item !== ""
+  );
+  return values.length > 0 ? values : undefined;
+};
+
+const toPage = (value: unknown): number | undefined => {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 1 ? page : undefined;
+};
+
+export const createSearchRouting = (indexName: string) => ({
+  router: history<SearchRouteState>({
+    createURL: ({ qsModule, routeState, location }) =>
+      `${location.pathname}${qsModule.stringify(routeState, {
+        addQueryPrefix: true,
+        arrayFormat: "repeat",
+      })}`,
+    parseURL: ({ qsModule, location }) => {
+      const params = qsModule.parse(location.search.slice(1));
+      const routeState: SearchRouteState = {
+        q: typeof params.q === "string" ? params.q : undefined,
+        sort: typeof params.sort === "string" ? params.sort : undefined,
+        page: toPage(params.page),
+      };
+      for (const param of ROUTED_PARAMS) {
+        routeState[param] = toValues(params[param]);
+      }
+      return routeState;
+    },
+    // The search effect re-runs after hydration; keep the URL it reads from
+    cleanUrlOnDispose: false,
+  }),
+  stateMapping: {
+    stateToRoute: (uiState: UiState): SearchRouteState => {
+      const indexUiState = uiState[indexName] ?? {};
+      const sort = indexUiState.sortBy
+        ? getSortFromIndexName(indexUiState.sortBy)
+        : "relevance";
+      const routeState: SearchRouteState = {
+        q: indexUiState.query || undefined,
+        sort: sort === "relevance" ? undefined : sort,
+        page: toPage(indexUiState.page),
+      };
+      for (const param of ROUTED_PARAMS) {
+        routeState[param] = toValues(
+          indexUiState.refinementList?.[ROUTED_FACETS[param]]
+        );
+      }
+      return routeState;
+    },
+    routeToState: (routeState: SearchRouteState): UiState => {
+      const refinementList: Record<string, string[]> = {};
+      for (const param of ROUTED_PARAMS) {
+        const values = toValues(routeState[param]);
+        if (values) refinementList[ROUTED_FACETS[param]] = values;
+      }
+      return {
+        [indexName]: {
+          query: routeState.q,
+          refinementList,
+          sortBy: isSortOrder(routeState.sort)
+            ? getSortIndexName(indexName, routeState.sort)
+            : undefined,
+          page: toPage(routeState.page),
+        },
+      };
+    },
+  },
+});
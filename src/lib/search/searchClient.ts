@@ -0,0 +1,417 @@
+import { getAlgoliaSearchClient, isAlgoliaConfigured } from "../algoliaClient";
+import { toFacetFilters } from "./algoliaProvider";
+import {
+  formatNumericFilter,
+  parseQuery,
+  toQueryText,
+  type QueryParseError,
+} from "./queryParser";
+import type { QueryRewrite } from "./smartSearch";
+import { getSortFromIndexName } from "./sorting";
+import type { FacetCounts, FacetStats, SearchHit } from "./types";
+
+// InstantSearch-compatible search clients for the browser. When Algolia is not
+// configured, or stops responding, searches go to /api/search backed by the
+// local index instead.
+
+export const LOCAL_INDEX_NAME = "local-snippets";
+
+export type SearchBackend = "algolia" | "local";
+
+type FacetFilters = string | (string | string[])[];
+
+// The subset of Algolia's multi-query request InstantSearch sends
+export interface MultiSearchRequest {
+  indexName: string;
+  // "facet" requests search within a facet's values (searchable refinementList)
+  type?: "default" | "facet";
+  facet?: string;
+  params?: {
+    query?: string;
+    page?: number;
+    hitsPerPage?: number;
+    facets?: string | string[];
+    facetFilters?: FacetFilters;
+    numericFilters?: string | (string | string[])[];
+    highlightPreTag?: string;
+    highlightPostTag?: string;
+    facetQuery?: string;
+    maxFacetHits?: number;
+    [key: string]: unknown;
+  };
+}
+
+export interface MultiSearchResult {
+  index: string;
+  query: string;
+  params: string;
+  hits: SearchHit[];
+  facets: FacetCounts;
+  facets_stats: Record<string, FacetStats>;
+  nbHits: number;
+  nbPages: number;
+  page: number;
+  hitsPerPage: number;
+  processingTimeMS: number;
+  exhaustiveNbHits: boolean;
+  exhaustiveFacetsCount: boolean;
+}
+
+export interface FacetValuesResult {
+  facetHits: { value: string; highlighted: string; count: number }[];
+  exhaustiveFacetsCount: boolean;
+  processingTimeMS: number;
+}
+
+export interface SnippetSearchClient {
+  search(
+    requests: MultiSearchRequest[]
+  ): Promise<{ results: (MultiSearchResult | FacetValuesResult)[] }>;
+}
+
+// Flattens Algolia facetFilters (["source:a", ["tags:b", "tags:c"], "tags:-d"])
+// into the { attribute: values } shapes /api/search expects.
+export const toFilterObjects = (
+  facetFilters?: FacetFilters
+): {
+  filters: Record<string, string[]>;
+  excludedFilters: Record<string, string[]>;
+} => {
+  const filters: Record<string, string[]> = {};
+  const excludedFilters: Record<string, string[]> = {};
+  const groups =
+    typeof facetFilters === "string" ? [facetFilters] : facetFilters ?? [];
+
+  for (const group of groups) {
+    for (const filter of Array.isArray(group) ? group : [group]) {
+      const separator = filter.indexOf(":");
+      if (separator <= 0) continue;
+      const attribute = filter.slice(0, separator);
+      const value = filter.slice(separator + 1).replace(/^"(.*)"$/, "$1");
+      if (value.startsWith("-")) {
+        excludedFilters[attribute] = [
+          ...(excludedFilters[attribute] || []),
+          value.slice(1),
+        ];
+      } else {
+        filters[attribute] = [...(filters[attribute] || []), value];
+      }
+    }
+  }
+  return { filters, excludedFilters };
+};
+
+const toList = <T>(value?: T | T[]): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// GET, so the browser can revalidate repeated searches against the ETag
+const fetchSearch = async (request: MultiSearchRequest, facets: string[]) => {
+  const params = request.params ?? {};
+  const query = new URLSearchParams({
+    provider: "local",
+    q: params.query ?? "",
+    // Sort replicas are addressed by index name, as with Algolia
+    sort: getSortFromIndexName(request.indexName),
+    page: String(params.page ?? 0),
+    hitsPerPage: String(params.hitsPerPage ?? 20),
+    facets: facets.join(","),
+  });
+
+  const { filters, excludedFilters } = toFilterObjects(params.facetFilters);
+  for (const [attribute, values] of Object.entries(filters)) {
+    values.forEach((value) => query.append("filter", `${attribute}:${value}`));
+  }
+  for (const [attribute, values] of Object.entries(excludedFilters)) {
+    values.forEach((value) => query.append("exclude", `${attribute}:${value}`));
+  }
+  for (const filter of toList(params.numericFilters).flat()) {
+    query.append("numericFilter", filter);
+  }
+  if (params.highlightPreTag) {
+    query.set("highlightPreTag", params.highlightPreTag);
+  }
+  if (params.highlightPostTag) {
+    query.set("highlightPostTag", params.highlightPostTag);
+  }
+
+  const response = await fetch(`/api/search?${query}`);
+  if (!response.ok) {
+    throw new Error(`Search request failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+const searchThroughApi = async (
+  request: MultiSearchRequest
+): Promise<MultiSearchResult> => {
+  const facets = toList(request.params?.facets).filter(
+    (facet) => facet !== "*"
+  );
+  const data = await fetchSearch(request, facets);
+
+  return {
+    index: request.indexName,
+    query: data.query,
+    params: "",
+    hits: data.hits,
+    facets: data.facets,
+    facets_stats: data.facetsStats,
+    nbHits: data.pagination.nbHits,
+    nbPages: data.pagination.nbPages,
+    page: data.pagination.page,
+    hitsPerPage: data.pagination.hitsPerPage,
+    processingTimeMS: data.timing.processingTimeMS,
+    exhaustiveNbHits: true,
+    exhaustiveFacetsCount: true,
+  };
+};
+
+// Facet value search: fetch the facet's counts for the current refinements,
+// then keep the values containing a word that starts with the facet query.
+const searchFacetValuesThroughApi = async (
+  request: MultiSearchRequest
+): Promise<FacetValuesResult> => {
+  const facet = request.facet ?? "";
+  const params = request.params ?? {};
+  const data = await fetchSearch(
+    { ...request, params: { ...params, hitsPerPage: 0, page: 0 } },
+    [facet]
+  );
+
+  const facetQuery = (params.facetQuery ?? "").toLowerCase();
+  const preTag = params.highlightPreTag ?? "<mark>";
+  const postTag = params.highlightPostTag ?? "</mark>";
+  const counts: Record<string, number> = data.facets[facet] ?? {};
+
+  const facetHits = Object.entries(counts)
+    .filter(([value]) =>
+      value
+        .toLowerCase()
+        .split(/[\s\-_./]+/)
+        .some((word) => word.startsWith(facetQuery))
+    )
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, params.maxFacetHits ?? 10)
+    .map(([value, count]) => {
+      const start = value.toLowerCase().indexOf(facetQuery);
+      const highlighted =
+        facetQuery && start >= 0
+          ? `${value.slice(0, start)}${preTag}${value.slice(
+              start,
+              start + facetQuery.length
+            )}${postTag}${value.slice(start + facetQuery.length)}`
+          : value;
+      return { value, highlighted, count };
+    });
+
+  return {
+    facetHits,
+    exhaustiveFacetsCount: true,
+    processingTimeMS: data.timing.processingTimeMS,
+  };
+};
+
+export const createApiSearchClient = (): SnippetSearchClient => ({
+  search: async (requests) => ({
+    results: await Promise.all(
+      requests.map((request) =>
+        request.type === "facet"
+          ? searchFacetValuesThroughApi(request)
+          : searchThroughApi(request)
+      )
+    ),
+  }),
+});
+
+// Turns the search box syntax (tag:react -redux after:2024-06-01) into
+// Algolia facet and numeric filters before requests reach the wrapped client.
+// Parse errors of the main query are reported through onParse.
+export const withQuerySyntax = (
+  client: SnippetSearchClient,
+  onParse?: (errors: QueryParseError[]) => void
+): SnippetSearchClient => ({
+  search: (requests) => {
+    let reported = false;
+    const rewritten = requests.map((request) => {
+      const params = request.params ?? {};
+      if (typeof params.query !== "string") return request;
+
+      const parsed = parseQuery(params.query);
+      if (!reported) {
+        onParse?.(parsed.errors);
+        reported = true;
+      }
+
+      return {
+        ...request,
+        params: {
+          ...params,
+          query: toQueryText(parsed),
+          advancedSyntax: true,
+          facetFilters: [
+            ...toList(params.facetFilters),
+            ...toFacetFilters(parsed),
+          ],
+          numericFilters: [
+            ...toList(params.numericFilters),
+            ...parsed.numericFilters.map(formatNumericFilter),
+          ],
+        },
+      };
+    });
+    return client.search(rewritten);
+  },
+});
+
+export interface SmartSearchOptions {
+  isEnabled: () => boolean;
+  // Called with the rewrite behind each search, or null for plain searches
+  onRewrite: (rewrite: QueryRewrite | null) => void;
+}
+
+export interface SmartSearchClient extends SnippetSearchClient {
+  // Searches this query as typed from now on
+  searchOriginal(query: string): void;
+}
+
+// Smart searches wait until typing pauses before asking for a rewrite
+const SMART_SEARCH_DELAY_MS = 400;
+
+const fetchQueryRewrite = async (
+  query: string
+): Promise<QueryRewrite | null> => {
+  const params = new URLSearchParams({
+    q: query,
+    smart: "true",
+    hitsPerPage: "0",
+    facets: "",
+  });
+  const response = await fetch(`/api/search?${params}`);
+  if (!response.ok) {
+    throw new Error(`Rewrite request failed with status ${response.status}`);
+  }
+  const data = await response.json();
+  return data.rewrite ?? null;
+};
+
+// "Smart search": while enabled, the query is rewritten by /api/search?smart=true
+// and the wrapped client searches the rewritten query instead. Rewrites are
+// remembered per query, so refinements and paging do not ask again.
+export const withSmartSearch = (
+  client: SnippetSearchClient,
+  options: SmartSearchOptions
+): SmartSearchClient => {
+  const rewrites = new Map<string, Promise<QueryRewrite | null>>();
+  const originalQueries = new Set<string>();
+  let latestSearch = 0;
+
+  return {
+    searchOriginal: (query) => {
+      originalQueries.add(query.trim());
+    },
+    search: async (requests) => {
+      const query = requests[0]?.params?.query?.trim() ?? "";
+      if (!options.isEnabled() || !query || originalQueries.has(query)) {
+        options.onRewrite(null);
+        return client.search(requests);
+      }
+
+      let rewrite = rewrites.get(query);
+      if (!rewrite) {
+        // Plain results while the query is still being typed
+        const searchId = ++latestSearch;
+        await new Promise((resolve) =>
+          setTimeout(resolve, SMART_SEARCH_DELAY_MS)
+        );
+        if (searchId !== latestSearch) return client.search(requests);
+
+        rewrite = fetchQueryRewrite(query).catch((error) => {
+          console.error("Smart search rewrite failed:", error);
+          rewrites.delete(query);
+          return null;
+        });
+        rewrites.set(query, rewrite);
+      }
+
+      const result = await rewrite;
+      options.onRewrite(result);
+      if (!result) return client.search(requests);
+
+      return client.search(
+        requests.map((request) =>
+          request.type !== "facet" && request.params?.query?.trim() === query
+            ? {
+                ...request,
+                params: { ...request.params, query: result.rewrittenQuery },
+              }
+            : request
+        )
+      );
+    },
+  };
+};
+
+// How long to stay on the fallback before trying the primary client again
+const FALLBACK_RETRY_MS = 60_000;
+
+export const createFallbackSearchClient = (
+  primary: SnippetSearchClient,
+  fallback: SnippetSearchClient,
+  onBackendChange?: (backend: SearchBackend) => void
+): SnippetSearchClient => {
+  let fallbackUntil = 0;
+
+  return {
+    search: async (requests) => {
+      if (Date.now() < fallbackUntil) {
+        return fallback.search(requests);
+      }
+
+      try {
+        const response = await primary.search(requests);
+        if (fallbackUntil !== 0) {
+          fallbackUntil = 0;
+          onBackendChange?.("algolia");
+        }
+        return response;
+      } catch (error) {
+        console.error("Algolia search failed, using the offline index:", error);
+        fallbackUntil = Date.now() + FALLBACK_RETRY_MS;
+        onBackendChange?.("local");
+        return fallback.search(requests);
+      }
+    },
+  };
+};
+
+export const getSearchIndexName = (): string =>
+  isAlgoliaConfigured()
+    ? process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME!
+    : LOCAL_INDEX_NAME;
+
+export const createSnippetSearchClient = (
+  onBackendChange: (backend: SearchBackend) => void,
+  onParse: (errors: QueryParseError[]) => void,
+  smartSearch: SmartSearchOptions
+): { client: SmartSearchClient; backend: SearchBackend } => {
+  const apiClient = createApiSearchClient();
+  if (!isAlgoliaConfigured()) {
+    return {
+      client: withSmartSearch(withQuerySyntax(apiClient, onParse), smartSearch),
+      backend: "local",
+    };
+  }
+
+  const algoliaClient =
+    getAlgoliaSearchClient() as unknown as SnippetSearchClient;
+  return {
+    client: withSmartSearch(
+      withQuerySyntax(
+        createFallbackSearchClient(algoliaClient, apiClient, onBackendChange),
+        onParse
+      ),
+      smartSearch
+    ),
+    backend: "algolia",
+  };
+};
@@ -0,0 +1,89 @@
+import { rewriteQuery } from "../aiRewriter";
+import { toLiteralQuery } from "./queryParser";
+import type { SearchProvider, SearchRequest } from "./types";
+
+// "Smart search": the query goes through the AI rewriter before it is run.
+// The rewriter is given the source and tag facet values, and its suggested
+// filters are clamped to them before they are applied. Filters only come
+// from there: the rewritten query is searched as plain words, so operators
+// in it can't add filters. Apply the user's own query syntax first.
+
+export interface QueryRewrite {
+  originalQuery: string;
+  rewrittenQuery: string;
+  explanation: string;
+  confidence: number;
+  // suggestedFilters that matched facet values, e.g. { tags: ["react"] }
+  appliedFilters: Record<string, string[]>;
+}
+
+// Facets suggested filters may refine, in the order bare values are tried
+const SMART_FILTER_FACETS = ["tags", "sources"];
+
+// Facet values handed to the rewriter as context
+const MAX_CONTEXT_VALUES = 50;
+
+const getFacetValues = async (
+  provider: SearchProvider
+): Promise<Record<string, string[]>> => {
+  const { facets } = await provider.search({
+    query: "",
+    page: 0,
+    hitsPerPage: 0,
+    facets: SMART_FILTER_FACETS,
+    filters: {},
+    excludedFilters: {},
+    numericFilters: [],
+    sort: "relevance",
+    mode: "keyword",
+    semanticWeight: 0,
+  });
+
+  const values: Record<string, string[]> = {};
+  for (const attribute of SMART_FILTER_FACETS) {
+    values[attribute] = Object.entries(facets[attribute] ?? {})
+      .sort(([, a], [, b]) => b - a)
+      .map(([value]) => value);
+  }
+  return values;
+};
+
+export const applySmartRewrite = async (
+  request: SearchRequest,
+  provider: SearchProvider
+): Promise<{ request: SearchRequest; rewrite: QueryRewrite }> => {
+  const facetValues = await getFacetValues(provider);
+  const result = await rewriteQuery(request.query, {
+    availableFilters: Object.fromEntries(
+      Object.entries(facetValues).map(([attribute, values]) => [
+        attribute,
+        values.slice(0, MAX_CONTEXT_VALUES),
+      ])
+    ),
+  });
+
+  // The original query comes back unchanged when the rewriter fails
+  const rewrittenQuery =
+    result.rewrittenQuery === request.query
+      ? request.query
+      : toLiteralQuery(result.rewrittenQuery) || request.query;
+  const appliedFilters = result.suggestedFilters;
+
+  const filters = { ...request.filters };
+  for (const [attribute, values] of Object.entries(appliedFilters)) {
+    filters[attribute] = Array.from(
+      new Set([...(filters[attribute] ?? []), ...values])
+    );
+  }
+
+  return {
+    request: { ...request, query: rewrittenQuery, filters },
+    rewrite: {
+      originalQuery: request.query,
+      rewrittenQuery,
+      explanation: result.explanation,
+      confidence: result.confidence,
+      appliedFilters,
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import type { Snippet } from "../snippet";
+
+// Sort orders offered on the search page. In Algolia each non-default order is
+// a standard replica of the main index named `${index}${indexSuffix}`, created
+// by scripts/upload-to-algolia.mjs; the local provider sorts in memory.
+
+export type SortOrder = "relevance" | "newest" | "shortest";
+
+export interface SortOption {
+  value: SortOrder;
+  label: string;
+  indexSuffix: string;
+  // Algolia sort criterion placed ahead of the default ranking in the replica
+  ranking?: string;
+}
+
+export const SORT_OPTIONS: SortOption[] = [
+  { value: "relevance", label: "Relevance", indexSuffix: "" },
+  {
+    value: "newest",
+    label: "Newest first",
+    indexSuffix: "_newest",
+    ranking: "desc(publishedAtTimestamp)",
+  },
+  {
+    value: "shortest",
+    label: "Shortest read",
+    indexSuffix: "_reading_time_asc",
+    ranking: "asc(readingTime)",
+  },
+];
+
+export const isSortOrder = (value: unknown): value is SortOrder =>
+  SORT_OPTIONS.some((option) => option.value === value);
+
+export const getSortIndexName = (baseIndex: string, sort: SortOrder): string =>
+  `${baseIndex}${
+    SORT_OPTIONS.find((option) => option.value === sort)?.indexSuffix ?? ""
+  }`;
+
+// Reverses getSortIndexName, so replica index names chosen in the UI can be
+// served by providers that sort in memory
+export const getSortFromIndexName = (indexName: string): SortOrder =>
+  SORT_OPTIONS.find(
+    (option) => option.indexSuffix && indexName.endsWith(option.indexSuffix)
+  )?.value ?? "relevance";
+
+// Records missing the sort attribute go last, like in an Algolia replica
+const compareBy = (
+  a: number | undefined,
+  b: number | undefined,
+  direction: 1 | -1
+): number => {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return (a - b) * direction;
+};
+
+// Sorts scored matches; ties on the sort attribute keep relevance order
+export const sortMatches = <T extends { record: Snippet; score: number }>(
+  matches: T[],
+  sort: SortOrder
+): T[] => {
+  const sorted = [...matches];
+  if (sort === "newest") {
+    sorted.sort(
+      (a, b) =>
+        compareBy(
+          a.record.publishedAtTimestamp,
+          b.record.publishedAtTimestamp,
+          -1
+        ) || b.score - a.score
+    );
+  } else if (sort === "shortest") {
+    sorted.sort(
+      (a, b) =>
+        compareBy(a.record.readingTime, b.record.readingTime, 1) ||
+        b.score - a.score
+    );
+  }
+  return sorted;
+};
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import type { Snippet } from "../snippet";
+import { getCorpusSignature, loadCorpus } from "./corpus";
+import {
+  buildSuggestionIndex,
+  SUGGESTIONS_FILE,
+  type SuggestionIndex,
+} from "./suggestions";
+
+// Loads the suggestions index written at ingest time, by runIngest and
+// scripts/upload-to-algolia.mjs. The file is only used while the corpus it
+// was built from is unchanged; otherwise, or without the file, the index is
+// built from the local corpus instead, and rebuilt whenever it changes.
+
+let fileCache: { mtimeMs: number; index: SuggestionIndex } | null = null;
+let corpusCache: { corpus: unknown; index: SuggestionIndex } | null = null;
+
+const getSuggestionFilePath = () => path.join(process.cwd(), SUGGESTIONS_FILE);
+
+// Call after writing the corpus files, so the file carries their signature
+export const writeSuggestionFile = (
+  snippets: Snippet[] = loadCorpus()
+): SuggestionIndex => {
+  const index = {
+    ...buildSuggestionIndex(snippets),
+    corpusSignature: getCorpusSignature(),
+  };
+  fs.writeFileSync(getSuggestionFilePath(), JSON.stringify(index, null, 2));
+  return index;
+};
+
+const readSuggestionFile = (): SuggestionIndex | null => {
+  const filePath = getSuggestionFilePath();
+  try {
+    const { mtimeMs } = fs.statSync(filePath);
+    if (fileCache?.mtimeMs !== mtimeMs) {
+      fileCache = {
+        mtimeMs,
+        index: JSON.parse(fs.readFileSync(filePath, "utf-8")),
+      };
+    }
+    // Written before the last ingest: stale
+    if (fileCache.index.corpusSignature !== getCorpusSignature()) return null;
+    return fileCache.index;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to load ${SUGGESTIONS_FILE}:`, error);
+    }
+    return null;
+  }
+};
+
+export const loadSuggestionIndex = (): SuggestionIndex => {
+  const fromFile = readSuggestionFile();
+  if (fromFile) return fromFile;
+
+  const corpus = loadCorpus();
+  if (corpusCache?.corpus !== corpus) {
+    corpusCache = { corpus, index: buildSuggestionIndex(corpus) };
+  }
+  return corpusCache.index;
+};
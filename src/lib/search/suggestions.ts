@@ -0,0 +1,168 @@
+import type { Snippet } from "../snippet";
+import { normalizeTerm, tokenize } from "./text";
+
+// Autocomplete suggestions for the search box: matching titles and popular
+// tags from a suggestions index built at ingest time, plus the user's own
+// recent queries (merged in the browser, since they never leave it).
+
+export type SuggestionType = "query" | "tag" | "title";
+
+export interface Suggestion {
+  type: SuggestionType;
+  value: string;
+  // Number of snippets with the tag
+  count?: number;
+  // Snippet the title belongs to
+  objectID?: string;
+}
+
+export interface SuggestionIndex {
+  generatedAt: string;
+  // getCorpusSignature() of the corpus the file was built from
+  corpusSignature?: string;
+  tags: { value: string; count: number }[];
+  titles: { value: string; objectID: string }[];
+}
+
+export const SUGGESTIONS_FILE = "suggestions.json";
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+
+// Tags found on a single snippet are mostly noise
+const MIN_TAG_COUNT = 2;
+const MAX_TAG_SUGGESTIONS = 4;
+const MAX_RECENT_SUGGESTIONS = 3;
+
+export const buildSuggestionIndex = (
+  snippets: Pick<Snippet, "objectID" | "title" | "tags">[]
+): SuggestionIndex => {
+  // Tags are counted case-insensitively but keep their first spelling, which
+  // is the facet value refinements need
+  const tagCounts = new Map<string, { value: string; count: number }>();
+  const titles = new Map<string, { value: string; objectID: string }>();
+
+  for (const snippet of snippets) {
+    const seen = new Set<string>();
+    for (const tag of snippet.tags) {
+      const key = tag.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const entry = tagCounts.get(key) ?? { value: tag, count: 0 };
+      entry.count += 1;
+      tagCounts.set(key, entry);
+    }
+    const title = snippet.title.trim();
+    const key = normalizeTerm(title);
+    if (title && !titles.has(key)) {
+      titles.set(key, { value: title, objectID: snippet.objectID });
+    }
+  }
+
+  const tags = Array.from(tagCounts.values());
+  const popularTags = tags.filter((tag) => tag.count >= MIN_TAG_COUNT);
+  return {
+    generatedAt: new Date().toISOString(),
+    // Fall back to every tag for small corpora
+    tags: (popularTags.length > 0 ? popularTags : tags).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+    ),
+    titles: Array.from(titles.values()),
+  };
+};
+
+// Splits what has been typed so far into finished words and the word still
+// being typed. "tag:" in front of the last word restricts it to tags.
+const parseInput = (input: string) => {
+  const tagOperator = /(?:^|\s)tags?:(\S*)$/i.exec(input);
+  const text = tagOperator ? tagOperator[1] : input;
+  const tokens = tokenize(text);
+  const finished = tokens.length === 0 || /\s$/.test(text);
+  return {
+    words: finished ? tokens : tokens.slice(0, -1),
+    prefix: finished ? "" : tokens[tokens.length - 1],
+    // The raw last word, so "next.j" still completes the "next.js" tag
+    lastWord: finished ? "" : normalizeTerm(/\S*$/.exec(text)?.[0] ?? ""),
+    tagsOnly: Boolean(tagOperator),
+  };
+};
+
+// True when every finished word appears in the text and a word in the text
+// starts with the word being typed
+const matchesWords = (
+  text: string,
+  words: string[],
+  prefix: string
+): boolean => {
+  const tokens = tokenize(text);
+  return (
+    words.every((word) => tokens.includes(word)) &&
+    (!prefix || tokens.some((token) => token.startsWith(prefix)))
+  );
+};
+
+export const matchSuggestions = (
+  index: SuggestionIndex,
+  input: string,
+  limit = DEFAULT_SUGGESTION_LIMIT
+): Suggestion[] => {
+  const { words, prefix, lastWord, tagsOnly } = parseInput(input);
+  if (!prefix && words.length === 0) return [];
+
+  // Tags complete the word being typed only
+  const tags: Suggestion[] = prefix
+    ? index.tags
+        .filter(
+          (tag) =>
+            normalizeTerm(tag.value).startsWith(lastWord) ||
+            // Word prefixes ("scr" for "web-scraping") for plain words only
+            (lastWord === prefix && matchesWords(tag.value, [], prefix))
+        )
+        .slice(0, tagsOnly ? limit : MAX_TAG_SUGGESTIONS)
+        .map((tag) => ({ type: "tag", value: tag.value, count: tag.count }))
+    : [];
+  if (tagsOnly) return tags;
+
+  const normalizedInput = normalizeTerm(input.trim());
+  const titles: Suggestion[] = index.titles
+    .filter((title) => matchesWords(title.value, words, prefix))
+    // Titles starting with the input first, then shorter titles
+    .map((title) => ({
+      title,
+      startsWith: normalizeTerm(title.value).startsWith(normalizedInput),
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.startsWith) - Number(a.startsWith) ||
+        a.title.value.length - b.title.value.length
+    )
+    .slice(0, Math.max(0, limit - tags.length))
+    .map(({ title }) => ({
+      type: "title",
+      value: title.value,
+      objectID: title.objectID,
+    }));
+
+  return [...tags, ...titles];
+};
+
+// Most recent distinct queries that extend what has been typed
+export const matchRecentQueries = (
+  queries: string[],
+  input: string
+): Suggestion[] => {
+  const normalizedInput = normalizeTerm(input.trim());
+  const seen = new Set<string>();
+  const matches: Suggestion[] = [];
+
+  for (let i = queries.length - 1; i >= 0; i--) {
+    const query = queries[i].trim();
+    const key = normalizeTerm(query);
+    if (!query || seen.has(key)) continue;
+    seen.add(key);
+    if (key !== normalizedInput && key.startsWith(normalizedInput)) {
+      matches.push({ type: "query", value: query });
+    }
+    if (matches.length === MAX_RECENT_SUGGESTIONS) break;
+  }
+  return matches;
+};
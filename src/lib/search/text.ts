@@ -0,0 +1,43 @@
+import { decode } from "he";
+
+// Text helpers shared by the local index, highlighting and ranking.
+
+// Strips HTML tags and entities so markup never ends up in the index
+export const toPlainText = (value: string): string =>
+  decode(value.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Lowercases and removes diacritics so "Café" and "cafe" match
+export const normalizeTerm = (value: string): string =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  normalizeTerm(text).match(/[a-z0-9]+/g) ?? [];
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][A-Za-z0-9_$]*/g;
+
+// Splits an identifier at camelCase, snake_case and $ boundaries:
+// "setCount" -> ["set", "Count"], "HTTPServer" -> ["HTTP", "Server"]
+const splitIdentifier = (identifier: string): string[] =>
+  identifier
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s_$]+/)
+    .filter(Boolean);
+
+// Rewrites source code as searchable words: each identifier as a whole plus
+// its parts, so "useState", "use state" and "use_state" all find
+// `const [count, setCount] = useState(0)`.
+export const expandIdentifiers = (code: string): string => {
+  const words: string[] = [];
+  for (const identifier of code.match(IDENTIFIER_PATTERN) ?? []) {
+    const parts = splitIdentifier(identifier);
+    words.push(parts.join(""));
+    if (parts.length > 1) words.push(...parts);
+  }
+  return words.join(" ");
+};
@@ -0,0 +1,85 @@
+import type { Snippet } from "../snippet";
+import type { SortOrder } from "./sorting";
+
+export interface HighlightResult {
+  value: string;
+  matchLevel: "none" | "partial" | "full";
+  matchedWords: string[];
+  fullyHighlighted?: boolean;
+}
+
+export type SearchHit = Snippet & {
+  _highlightResult?: Partial<
+    Record<string, HighlightResult | HighlightResult[]>
+  >;
+};
+
+// Facet counts keyed by attribute, then by facet value
+export type FacetCounts = Record<string, Record<string, number>>;
+
+// Range of a numeric facet among the matching hits, as in Algolia's facets_stats
+export interface FacetStats {
+  min: number;
+  max: number;
+  avg: number;
+  sum: number;
+}
+
+export type NumericOperator = "<" | "<=" | "=" | "!=" | ">=" | ">";
+
+export interface NumericFilter {
+  attribute: string;
+  operator: NumericOperator;
+  value: number;
+}
+
+// keyword ranks by BM25/Algolia relevance, semantic by embedding similarity,
+// hybrid blends the two
+export type SearchMode = "keyword" | "semantic" | "hybrid";
+
+export interface SearchRequest {
+  query: string;
+  // Zero-based, matching Algolia
+  page: number;
+  hitsPerPage: number;
+  // Attributes to compute facet counts for
+  facets: string[];
+  // Facet refinements: values are OR'ed within an attribute and AND'ed across attributes
+  filters: Record<string, string[]>;
+  // Facet values a hit must not have, e.g. { tags: ["redux"] }
+  excludedFilters: Record<string, string[]>;
+  // AND'ed numeric conditions, e.g. publishedAtTimestamp >= 1717200000
+  numericFilters: NumericFilter[];
+  sort: SortOrder;
+  mode: SearchMode;
+  // Share of the hybrid score taken from vector similarity, between 0 and 1
+  semanticWeight: number;
+  // Tags wrapped around matched words in _highlightResult
+  highlightPreTag?: string;
+  highlightPostTag?: string;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  facets: FacetCounts;
+  // Only present for numeric facet attributes
+  facetsStats: Record<string, FacetStats>;
+  nbHits: number;
+  nbPages: number;
+  page: number;
+  hitsPerPage: number;
+  processingTimeMS: number;
+  // Name of the provider that served the result when it differs from the one asked
+  provider?: string;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(request: SearchRequest): Promise<SearchResult>;
+}
+
+export const SEARCH_MODES: SearchMode[] = ["keyword", "semantic", "hybrid"];
+export const DEFAULT_SEMANTIC_WEIGHT = 0.5;
+
+export const DEFAULT_HITS_PER_PAGE = 10;
+export const MAX_HITS_PER_PAGE = 100;
@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import type { Snippet } from "../snippet";
+import { loadCorpus } from "./corpus";
+import {
+  getEmbeddingProvider,
+  toEmbeddingText,
+  type EmbeddingProvider,
+} from "./embeddings";
+
+// Snippet embeddings, computed at ingest time (npm run build-embeddings, or
+// as part of npm run upload-algolia) and stored next to scraped-snippets.json.
+// Records missing from the file, or a file written by another embedder, are
+// embedded when the corpus is loaded.
+
+export const EMBEDDINGS_FILE = "scraped-snippets.embeddings.json";
+
+export interface EmbeddingFile {
+  provider: string;
+  dimensions: number;
+  generatedAt: string;
+  vectors: Record<string, number[]>;
+}
+
+// Stored vectors are rounded to keep the file small
+const STORED_PRECISION = 1e4;
+
+const resolveEmbeddingsPath = () => path.join(process.cwd(), EMBEDDINGS_FILE);
+
+export const buildEmbeddingFile = async (
+  snippets: Snippet[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<EmbeddingFile> => {
+  const embeddings = await provider.embed(snippets.map(toEmbeddingText));
+  return {
+    provider: provider.name,
+    dimensions: provider.dimensions,
+    generatedAt: new Date().toISOString(),
+    // fromEntries defines own keys, where assigning "__proto__" would not
+    vectors: Object.fromEntries(
+      snippets.map((snippet, i) => [
+        snippet.objectID,
+        embeddings[i].map(
+          (value) => Math.round(value * STORED_PRECISION) / STORED_PRECISION
+        ),
+      ])
+    ),
+  };
+};
+
+export const writeEmbeddingFile = async (
+  snippets: Snippet[] = loadCorpus()
+): Promise<EmbeddingFile> => {
+  const file = await buildEmbeddingFile(snippets);
+  fs.writeFileSync(resolveEmbeddingsPath(), JSON.stringify(file));
+  return file;
+};
+
+const readEmbeddingFile = (
+  provider: EmbeddingProvider
+): EmbeddingFile | null => {
+  try {
+    const file: EmbeddingFile = JSON.parse(
+      fs.readFileSync(resolveEmbeddingsPath(), "utf-8")
+    );
+    if (file.provider !== provider.name) {
+      console.warn(
+        `${EMBEDDINGS_FILE} was built with "${file.provider}", re-embedding with "${provider.name}"`
+      );
+      return null;
+    }
+    return file;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Failed to load ${EMBEDDINGS_FILE}:`, error);
+    }
+    return null;
+  }
+};
+
+interface VectorCache {
+  corpus: Snippet[];
+  mtimeMs: number;
+  vectors: number[][];
+}
+
+let cache: VectorCache | null = null;
+
+const getFileMtime = () => {
+  try {
+    return fs.statSync(resolveEmbeddingsPath()).mtimeMs;
+  } catch {
+    return 0;
+  }
+};
+
+// Embeddings aligned with loadCorpus(), refreshed when either file changes
+export const loadCorpusVectors = async (): Promise<{
+  corpus: Snippet[];
+  vectors: number[][];
+}> => {
+  const corpus = loadCorpus();
+  const mtimeMs = getFileMtime();
+  if (cache && cache.corpus === corpus && cache.mtimeMs === mtimeMs) {
+    return cache;
+  }
+
+  const provider = getEmbeddingProvider();
+  // A Map, since objectIDs such as "constructor" or "__proto__" would hit
+  // the prototype of a plain object
+  const stored = new Map(
+    Object.entries(readEmbeddingFile(provider)?.vectors ?? {})
+  );
+  const missing = corpus.filter((snippet) => !stored.has(snippet.objectID));
+  const embedded = await provider.embed(missing.map(toEmbeddingText));
+  missing.forEach((snippet, i) => {
+    stored.set(snippet.objectID, embedded[i]);
+  });
+
+  cache = {
+    corpus,
+    mtimeMs,
+    vectors: corpus.map((snippet) => stored.get(snippet.objectID)!),
+  };
+  return cache;
+};
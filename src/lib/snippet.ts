@@ -0,0 +1,187 @@
+import { guessContentFormat, normalizeSnippetContent } from "./content";
+
+// Shared snippet record shape used by search providers, API routes and the UI
+
+export interface Snippet {
+  // SNIPPET_SCHEMA_VERSION when written; set by toSnippet
+  schemaVersion?: number;
+  objectID: string;
+  title: string;
+  // The description as fetched, which may be HTML
+  snippet: string;
+  // Derived from snippet by src/lib/content.ts: plain text, and HTML reduced
+  // to an allow-list of elements. Both are truncated at a word boundary.
+  snippetText?: string;
+  snippetHtml?: string;
+  preview?: string;
+  url?: string;
+  tags: string[];
+  source: string;
+  publishedAt?: string;
+  // publishedAt as a Unix timestamp in seconds, for numeric filters and sorting
+  publishedAtTimestamp?: number;
+  readingTime?: number;
+  author?: string;
+  code?: string;
+  language?: string;
+  category?: string;
+  // Set on code block records: the objectID of the article they were taken
+  // from, and the heading they appeared under
+  parentID?: string;
+  heading?: string;
+  // Set on records of local sources: the file's path from the source's root
+  path?: string;
+  // The URL the article declares canonical (dev.to canonical_url, a
+  // rel="canonical" link), when it differs from url
+  canonicalUrl?: string;
+  // Set by duplicate clustering at ingest. The record kept for a cluster
+  // lists the URLs and sources of every copy; the others point at it and are
+  // left out of the corpus.
+  urls?: string[];
+  sources?: string[];
+  duplicateOf?: string;
+}
+
+// Sources a record is faceted and filtered on: every copy's source for an
+// article merged from cross-posts, so it stays under each of them
+export const getSources = (snippet: Snippet): string[] =>
+  snippet.sources && snippet.sources.length > 0
+    ? snippet.sources
+    : [snippet.source];
+
+// Converts a date string into a Unix timestamp in seconds
+export const toTimestamp = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+};
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return undefined;
+};
+
+// Tags arrive either as an array or as a comma separated string ("react, javascript")
+export const normalizeTags = (tags: unknown): string[] => {
+  if (Array.isArray(tags)) {
+    return tags.map((tag) => String(tag).trim()).filter(Boolean);
+  }
+  if (typeof tags === "string") {
+    return tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return [];
+};
+
+type RawRecord = Record<string, unknown>;
+
+// Version of the current Snippet shape, stored in each record. Records
+// without one are one of the two older shapes: version 0 is the sample
+// dataset (id, description, createdAt, tags as a comma separated string),
+// version 1 the scraper output before records were versioned (objectID,
+// snippet, publishedAt, without snippetText, snippetHtml and
+// publishedAtTimestamp).
+export const SNIPPET_SCHEMA_VERSION = 2;
+
+export const getSchemaVersion = (raw: RawRecord): number | undefined => {
+  if (typeof raw.schemaVersion === "number") return raw.schemaVersion;
+  if ("objectID" in raw) return 1;
+  if ("id" in raw) return 0;
+  return undefined;
+};
+
+// MIGRATIONS[n] turns a version n record into a version n + 1 record
+const MIGRATIONS: ((raw: RawRecord) => RawRecord)[] = [
+  ({ id, description, createdAt, ...raw }) => ({
+    objectID: id,
+    snippet: description,
+    publishedAt: createdAt,
+    source: "dataset",
+    ...raw,
+  }),
+  (raw) => {
+    const description = asString(raw.snippet) ?? "";
+    const content =
+      typeof raw.snippetText === "string" && typeof raw.snippetHtml === "string"
+        ? { snippetText: raw.snippetText, snippetHtml: raw.snippetHtml }
+        : normalizeSnippetContent(description, guessContentFormat(description));
+    const publishedAtTimestamp = toTimestamp(asString(raw.publishedAt));
+    return {
+      ...raw,
+      snippet: description,
+      ...content,
+      tags: normalizeTags(raw.tags),
+      ...(publishedAtTimestamp !== undefined && { publishedAtTimestamp }),
+    };
+  },
+];
+
+// Brings a record of any older shape up to SNIPPET_SCHEMA_VERSION. Records
+// of an unknown or newer version are returned unchanged.
+export const migrateRecord = (raw: RawRecord): RawRecord => {
+  let version = getSchemaVersion(raw);
+  if (version === undefined || version >= SNIPPET_SCHEMA_VERSION) return raw;
+  let record = raw;
+  for (; version < SNIPPET_SCHEMA_VERSION; version++) {
+    record = MIGRATIONS[version](record);
+  }
+  return { schemaVersion: SNIPPET_SCHEMA_VERSION, ...record };
+};
+
+// Converts a raw record of any version into a Snippet, keeping only known
+// fields of the right type. Records without an objectID or title are null.
+export const toSnippet = (raw: RawRecord): Snippet | null => {
+  const record = migrateRecord(raw);
+  const objectID = asString(record.objectID);
+  const title = asString(record.title);
+  if (!objectID || !title) return null;
+
+  const snippet: Snippet = {
+    schemaVersion: SNIPPET_SCHEMA_VERSION,
+    objectID,
+    title,
+    snippet: asString(record.snippet) ?? "",
+    snippetText: asString(record.snippetText) ?? "",
+    snippetHtml: asString(record.snippetHtml) ?? "",
+    tags: normalizeTags(record.tags),
+    source: asString(record.source) ?? "dataset",
+  };
+
+  const optionalFields = {
+    preview: asString(record.preview),
+    url: asString(record.url),
+    publishedAt: asString(record.publishedAt),
+    author: asString(record.author),
+    code: asString(record.code),
+    language: asString(record.language),
+    category: asString(record.category),
+    parentID: asString(record.parentID),
+    heading: asString(record.heading),
+    path: asString(record.path),
+    canonicalUrl: asString(record.canonicalUrl),
+    urls: Array.isArray(record.urls) ? normalizeTags(record.urls) : undefined,
+    sources: Array.isArray(record.sources)
+      ? normalizeTags(record.sources)
+      : undefined,
+    duplicateOf: asString(record.duplicateOf),
+  };
+  for (const [key, value] of Object.entries(optionalFields)) {
+    if (value !== undefined) {
+      (snippet as unknown as RawRecord)[key] = value;
+    }
+  }
+
+  const publishedAtTimestamp = toTimestamp(snippet.publishedAt);
+  if (publishedAtTimestamp !== undefined) {
+    snippet.publishedAtTimestamp = publishedAtTimestamp;
+  }
+
+  if (typeof record.readingTime === "number") {
+    snippet.readingTime = record.readingTime;
+  }
+
+  return snippet;
+};
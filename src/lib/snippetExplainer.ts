@@ -0,0 +1,86 @@
+import { createHash } from "crypto";
+import {
+  getLlmProvider,
+  streamCompletion,
+  type LlmProvider,
+  type LlmRequest,
+} from "./llm";
+import { delimit, UNTRUSTED_INPUT_RULES } from "./llm/prompt";
+import { LruCache } from "./search/cache";
+import { toPlainText } from "./search/text";
+import type { Snippet } from "./snippet";
+
+// Plain-language explanations of a snippet's code, for the "Explain" button.
+// Finished explanations are cached per record and content hash, so an edited
+// record is explained again while unchanged ones are served from memory.
+
+type ExplainedSnippet = Pick<
+  Snippet,
+  "objectID" | "title" | "snippet" | "code" | "language"
+>;
+
+const MAX_CODE_CHARS = 6000;
+
+const explanationCache = new LruCache<string>(500, 24 * 60 * 60 * 1000);
+
+export const getExplanationCacheKey = (snippet: ExplainedSnippet): string =>
+  `${snippet.objectID}:${createHash("sha1")
+    .update(
+      JSON.stringify([
+        snippet.title,
+        snippet.snippet,
+        snippet.code,
+        snippet.language,
+      ])
+    )
+    .digest("hex")}`;
+
+export const getCachedExplanation = (
+  snippet: ExplainedSnippet
+): string | undefined => explanationCache.get(getExplanationCacheKey(snippet));
+
+const buildExplainRequest = (snippet: ExplainedSnippet): LlmRequest => ({
+  system: `${UNTRUSTED_INPUT_RULES} Respond in plain text with the three sections requested and nothing else.`,
+  prompt: `You are a patient senior developer explaining a code snippet to a junior developer.
+
+Title:
+${delimit("snippet_title", snippet.title, 200)}
+
+Description:
+${delimit("snippet_description", toPlainText(snippet.snippet), 1000)}
+
+Code (${snippet.language || "unknown language"}):
+${delimit("code_snippet", snippet.code ?? "", MAX_CODE_CHARS)}
+
+Write three short sections in plain language. Start each one with its heading alone on a line, exactly as written here:
+- "Walkthrough": what the code does, step by step
+- "Pitfalls": common mistakes and edge cases to watch for
+- "APIs used": the functions, hooks, or library APIs it relies on, one per line with a short note`,
+  maxTokens: 800,
+  temperature: 0.2,
+});
+
+// Yields the explanation as it is generated, or all at once from the cache.
+// The provider is resolved in the body, so a misconfigured one fails the
+// first next() call, which the caller handles, rather than the call itself.
+export async function* streamExplanation(
+  snippet: ExplainedSnippet,
+  provider?: LlmProvider
+): AsyncIterable<string> {
+  const key = getExplanationCacheKey(snippet);
+  const cached = explanationCache.get(key);
+  if (cached) {
+    yield cached;
+    return;
+  }
+
+  let text = "";
+  for await (const chunk of streamCompletion(
+    provider ?? getLlmProvider(),
+    buildExplainRequest(snippet)
+  )) {
+    text += chunk;
+    yield chunk;
+  }
+  if (text.trim()) explanationCache.set(key, text);
+}
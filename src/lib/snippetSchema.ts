@@ -0,0 +1,179 @@
+import {
+  getSchemaVersion,
+  SNIPPET_SCHEMA_VERSION,
+  toTimestamp,
+  type Snippet,
+} from "./snippet";
+
+// Runtime validation of dataset records against the current Snippet schema.
+// Unlike toSnippet, which quietly drops what it can't use, the validator
+// reports every problem of a record so a dataset can be fixed before it is
+// uploaded. The rules are keyed by Snippet's fields, so adding a field to
+// the interface without a rule here fails to compile.
+
+type FieldType = "string" | "number" | "strings";
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  // Returns the reason a value of the right type is still invalid
+  check?: (value: never, record: Record<string, unknown>) => string | undefined;
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const nonEmpty = (value: string) =>
+  value.trim() ? undefined : "must not be empty";
+const httpUrl = (value: string) =>
+  isHttpUrl(value) ? undefined : "must be an http(s) URL";
+
+const SNIPPET_RULES: Record<keyof Snippet, FieldRule> = {
+  schemaVersion: {
+    type: "number",
+    required: true,
+    check: (value: number) =>
+      value === SNIPPET_SCHEMA_VERSION
+        ? undefined
+        : `is ${value}, expected ${SNIPPET_SCHEMA_VERSION}`,
+  },
+  objectID: { type: "string", required: true, check: nonEmpty },
+  title: { type: "string", required: true, check: nonEmpty },
+  snippet: { type: "string", required: true },
+  // Plain text, which may well mention "<div>"
+  snippetText: { type: "string", required: true },
+  snippetHtml: { type: "string", required: true },
+  preview: { type: "string" },
+  url: { type: "string", check: httpUrl },
+  tags: {
+    type: "strings",
+    required: true,
+    check: (value: string[]) =>
+      value.some((tag) => !tag.trim())
+        ? "must not contain empty tags"
+        : undefined,
+  },
+  source: { type: "string", required: true, check: nonEmpty },
+  publishedAt: {
+    type: "string",
+    check: (value: string) =>
+      toTimestamp(value) === undefined ? "is not a valid date" : undefined,
+  },
+  publishedAtTimestamp: {
+    type: "number",
+    check: (value: number, record) =>
+      typeof record.publishedAt === "string" &&
+      toTimestamp(record.publishedAt) !== value
+        ? "does not match publishedAt"
+        : undefined,
+  },
+  readingTime: {
+    type: "number",
+    check: (value: number) => (value >= 0 ? undefined : "must not be negative"),
+  },
+  author: { type: "string" },
+  code: { type: "string" },
+  language: { type: "string", check: nonEmpty },
+  category: { type: "string" },
+  parentID: { type: "string", check: nonEmpty },
+  heading: { type: "string" },
+  path: { type: "string", check: nonEmpty },
+  canonicalUrl: { type: "string", check: httpUrl },
+  urls: {
+    type: "strings",
+    check: (value: string[]) =>
+      value.every(isHttpUrl) ? undefined : "must only contain http(s) URLs",
+  },
+  sources: { type: "strings" },
+  duplicateOf: { type: "string", check: nonEmpty },
+};
+
+const TYPE_NAMES: Record<FieldType, string> = {
+  string: "a string",
+  number: "a number",
+  strings: "a list of strings",
+};
+
+const hasType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "strings":
+      return (
+        Array.isArray(value) && value.every((item) => typeof item === "string")
+      );
+  }
+};
+
+// Problems of one record, as "field: reason" messages; empty when valid
+export const validateSnippet = (record: unknown): string[] => {
+  if (typeof record !== "object" || record === null || Array.isArray(record)) {
+    return ["record: expected an object"];
+  }
+  const fields = record as Record<string, unknown>;
+  const version = getSchemaVersion(fields);
+  if (version !== undefined && version < SNIPPET_SCHEMA_VERSION) {
+    return [
+      `schemaVersion: record has the version ${version} shape, migrate it to version ${SNIPPET_SCHEMA_VERSION}`,
+    ];
+  }
+
+  const issues: string[] = [];
+  for (const [field, rule] of Object.entries(SNIPPET_RULES)) {
+    const value = fields[field];
+    if (value === undefined) {
+      if (rule.required) issues.push(`${field}: is required`);
+      continue;
+    }
+    if (!hasType(value, rule.type)) {
+      issues.push(`${field}: expected ${TYPE_NAMES[rule.type]}`);
+      continue;
+    }
+    const reason = rule.check?.(value as never, fields);
+    if (reason) issues.push(`${field}: ${reason}`);
+  }
+  for (const field of Object.keys(fields)) {
+    if (!(field in SNIPPET_RULES)) issues.push(`${field}: unknown field`);
+  }
+  return issues;
+};
+
+export interface RecordIssues {
+  // Position in the dataset
+  index: number;
+  objectID?: string;
+  issues: string[];
+}
+
+// Invalid records of a dataset, including objectIDs used more than once
+export const validateDataset = (records: unknown[]): RecordIssues[] => {
+  const seen = new Map<string, number>();
+  const invalid: RecordIssues[] = [];
+  records.forEach((record, index) => {
+    const issues = validateSnippet(record);
+    // Version 0 records are still identified by id
+    const fields = record as Record<string, unknown> | null;
+    const objectID = fields?.objectID ?? fields?.id;
+    const id =
+      typeof objectID === "string" || typeof objectID === "number"
+        ? String(objectID)
+        : undefined;
+    if (id !== undefined) {
+      const first = seen.get(id);
+      if (first !== undefined) {
+        issues.push(`objectID: also used by record #${first}`);
+      } else {
+        seen.set(id, index);
+      }
+    }
+    if (issues.length > 0) invalid.push({ index, objectID: id, issues });
+  });
+  return invalid;
+};
@@ -1,6 +1,11 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 
+// Links taken from records or model output are data: only web links are
+// rendered, since a javascript: URL in an href runs when clicked
+export const isWebUrl = (url?: string): url is string =>
+  !!url && /^https?:\/\//i.test(url);
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { loadCorpus } from "../../lib/search/corpus";
+import {
+  getCachedExplanation,
+  streamExplanation,
+} from "../../lib/snippetExplainer";
+
+// API route for "Explain this snippet".
+// GET ?objectID=1 -> text/plain walkthrough, pitfalls and APIs used, streamed
+// as it is generated. X-Cache says whether it came from the explanation cache.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { objectID } = req.query;
+  if (typeof objectID !== "string" || !objectID) {
+    return res.status(400).json({ error: "objectID is required" });
+  }
+
+  const snippet = loadCorpus().find((record) => record.objectID === objectID);
+  if (!snippet) {
+    return res.status(404).json({ error: `Unknown objectID "${objectID}"` });
+  }
+  if (!snippet.code) {
+    return res
+      .status(400)
+      .json({ error: "Only records with code can be explained" });
+  }
+
+  const cacheStatus = getCachedExplanation(snippet) ? "HIT" : "MISS";
+  const chunks = streamExplanation(snippet)[Symbol.asyncIterator]();
+
+  // Wait for the first chunk so a provider failure can still be an error status
+  let next: IteratorResult<string>;
+  try {
+    next = await chunks.next();
+  } catch (error) {
+    console.error("Explain API error:", error);
+    return res.status(502).json({ error: "AI service unavailable" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/plain; charset=utf-8",
+    "Cache-Control": "no-store",
+    "X-Cache": cacheStatus,
+  });
+  // Stop generating when the client goes away
+  res.on("close", () => void chunks.return?.());
+
+  try {
+    while (!next.done) {
+      res.write(next.value);
+      next = await chunks.next();
+    }
+  } catch (error) {
+    console.error("Explain API stream error:", error);
+    res.write("\n\n[The explanation was interrupted. Try again.]");
+  }
+  res.end();
+}
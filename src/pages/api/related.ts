@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  DEFAULT_RELATED_LIMIT,
+  findRelatedSnippets,
+} from "../../lib/search/related";
+
+const MAX_RELATED_LIMIT = 20;
+
+// API route for "more like this".
+// GET ?objectID=devto-123&limit=5 -> { objectID, hits: [{ ...snippet, score, sharedTags }] }
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { objectID } = req.query;
+  if (typeof objectID !== "string" || !objectID) {
+    return res.status(400).json({ error: "objectID is required" });
+  }
+
+  const limit =
+    req.query.limit === undefined
+      ? DEFAULT_RELATED_LIMIT
+      : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RELATED_LIMIT) {
+    return res.status(400).json({
+      error: `limit must be an integer between 1 and ${MAX_RELATED_LIMIT}`,
+    });
+  }
+
+  try {
+    const related = findRelatedSnippets(objectID, limit);
+    if (!related) {
+      return res.status(404).json({ error: `Unknown objectID "${objectID}"` });
+    }
+
+    res.status(200).json({
+      objectID,
+      hits: related.map(({ record, score, sharedTags }) => ({
+        ...record,
+        score,
+        sharedTags,
+      })),
+    });
+  } catch (error) {
+    console.error("Related API error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
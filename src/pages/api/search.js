@@ -1,27 +0,0 @@
-// API route for search functionality
-export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  try {
-    const { query } = req.body;
-
-    if (!query) {
-      return res.status(400).json({ error: 'Query is required' });
-    }
-
-    // TODO: Implement search logic using algoliaClient
-    // const results = await searchAlgolia(query);
-    
-    // For now, return a placeholder response
-    res.status(200).json({
-      results: [],
-      query,
-      message: 'Search endpoint ready for implementation'
-    });
-  } catch (error) {
-    console.error('Search API error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-} 
\ No newline at end of file
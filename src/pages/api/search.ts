@@ -0,0 +1,122 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSearchProvider, isSearchProviderName } from "../../lib/search";
+import { searchWithCache } from "../../lib/search/cache";
+import { applyQuerySyntax } from "../../lib/search/queryParser";
+import { parseSearchRequest } from "../../lib/search/request";
+import {
+  applySmartRewrite,
+  type QueryRewrite,
+} from "../../lib/search/smartSearch";
+
+// API route for search functionality.
+// POST { query, page?, hitsPerPage?, facets?, filters?, excludedFilters?, numericFilters?, sort?, provider? }
+// GET  ?q=...&page=&hitsPerPage=&facets=source,tags&filter=source:dev.to&exclude=tags:redux&numericFilter=readingTime<=5&sort=newest&mode=hybrid&semanticWeight=0.5&smart=true&provider=
+// Operators in the query (tag:react -redux after:2024-06-01) become filters;
+// parse problems are reported in `parseErrors` while the rest still runs.
+// Semantic and hybrid modes rank the local corpus with its embeddings.
+// Results are cached per normalized request; GET responses carry an ETag and
+// answer If-None-Match with 304 Not Modified.
+// smart=true runs the query through the AI rewriter first and reports the
+// rewrite, including the suggested filters that were applied, in `rewrite`.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST" && req.method !== "GET") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const startedAt = Date.now();
+  const input = (req.method === "POST" ? req.body : req.query) ?? {};
+  const { request: parsedRequest, error } = parseSearchRequest(
+    input,
+    req.method === "POST" ? "body" : "query"
+  );
+
+  if (!parsedRequest) {
+    return res.status(400).json({ error });
+  }
+
+  if (input.provider !== undefined && !isSearchProviderName(input.provider)) {
+    return res.status(400).json({ error: "Unknown search provider" });
+  }
+
+  if (parsedRequest.mode !== "keyword" && input.provider === "algolia") {
+    return res.status(400).json({
+      error: `The algolia provider only supports mode=keyword`,
+    });
+  }
+
+  const smart = [true, "true", "1"].includes(input.smart);
+
+  try {
+    const provider = getSearchProvider(
+      parsedRequest.mode === "keyword" ? input.provider : "local"
+    );
+
+    // The user's operators become filters before the rewrite, whose output
+    // is searched as plain words
+    const { request: syntaxRequest, errors: parseErrors } =
+      applyQuerySyntax(parsedRequest);
+    let rewrite: QueryRewrite | null = null;
+    let request = syntaxRequest;
+    if (smart && syntaxRequest.query.trim()) {
+      ({ request, rewrite } = await applySmartRewrite(syntaxRequest, provider));
+    }
+    const { result, etag, cacheStatus } = await searchWithCache(
+      provider,
+      request
+    );
+
+    res.setHeader("X-Cache", cacheStatus);
+    // Rewrites are not part of the ETag, so smart responses are not reused
+    if (rewrite) {
+      res.setHeader("Cache-Control", "no-store");
+    } else {
+      res.setHeader("ETag", etag);
+      // Browsers revalidate every time; unchanged results cost a 304
+      res.setHeader("Cache-Control", "public, max-age=0, must-revalidate");
+    }
+    const ifNoneMatch = req.headers["if-none-match"];
+    if (
+      req.method === "GET" &&
+      !rewrite &&
+      ifNoneMatch
+        ?.split(",")
+        .some(
+          (candidate) => candidate.trim() === etag || candidate.trim() === "*"
+        )
+    ) {
+      return res.status(304).end();
+    }
+
+    const body = {
+      query: parsedRequest.query,
+      parseErrors,
+      provider: result.provider ?? provider.name,
+      mode: request.mode,
+      rewrite,
+      hits: result.hits,
+      facets: result.facets,
+      facetsStats: result.facetsStats,
+      pagination: {
+        page: result.page,
+        hitsPerPage: result.hitsPerPage,
+        nbHits: result.nbHits,
+        nbPages: result.nbPages,
+      },
+      timing: {
+        processingTimeMS: result.processingTimeMS,
+        totalTimeMS: Date.now() - startedAt,
+      },
+    };
+    // Written directly: res.json() would replace the ETag with a hash of the
+    // body, which changes with every timing value
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.status(200).end(JSON.stringify(body));
+  } catch (error) {
+    console.error("Search API error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
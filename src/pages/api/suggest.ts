@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { loadSuggestionIndex } from "../../lib/search/suggestionIndex";
+import {
+  DEFAULT_SUGGESTION_LIMIT,
+  matchSuggestions,
+} from "../../lib/search/suggestions";
+
+const MAX_SUGGESTION_LIMIT = 20;
+
+// API route for search box autocomplete.
+// GET ?q=reac&limit=8 -> { query, suggestions: [{ type: "tag" | "title", value, count?, objectID? }] }
+// "tag:rea" suggests tags only.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const query = typeof req.query.q === "string" ? req.query.q : "";
+  const limit =
+    req.query.limit === undefined
+      ? DEFAULT_SUGGESTION_LIMIT
+      : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTION_LIMIT) {
+    return res.status(400).json({
+      error: `limit must be an integer between 1 and ${MAX_SUGGESTION_LIMIT}`,
+    });
+  }
+
+  try {
+    const suggestions = matchSuggestions(loadSuggestionIndex(), query, limit);
+    res.status(200).json({ query, suggestions });
+  } catch (error) {
+    console.error("Suggest API error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  DEFAULT_ANALYSIS_HITS,
+  enhanceSearchResults,
+} from "../../lib/aiRewriter";
+import { loadCorpus } from "../../lib/search/corpus";
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// API route for the AI summary of a result page.
+// GET ?q=hooks&objectID=a&objectID=b -> { query, summary, suggestions, insights: [{ text, citations: [{ objectID, title, url }] }] }
+// objectIDs are the hits in display order; only the first few are analyzed.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (!query) {
+    return res.status(400).json({ error: "q is required" });
+  }
+  const objectIDs = toArray(req.query.objectID).slice(0, DEFAULT_ANALYSIS_HITS);
+  if (objectIDs.length === 0) {
+    return res.status(400).json({ error: "objectID is required" });
+  }
+
+  try {
+    const corpus = new Map(
+      loadCorpus().map((snippet) => [snippet.objectID, snippet])
+    );
+    const hits = objectIDs.flatMap((objectID) => corpus.get(objectID) ?? []);
+    if (hits.length === 0) {
+      return res.status(404).json({ error: "None of the objectIDs are known" });
+    }
+
+    const analysis = await enhanceSearchResults(hits, query);
+    res.status(200).json({
+      query,
+      summary: analysis.summary,
+      suggestions: analysis.suggestions,
+      insights: analysis.insights.map(({ text, citations }) => ({
+        text,
+        citations: citations.map((objectID) => {
+          const { title, url } = corpus.get(objectID)!;
+          return { objectID, title, url };
+        }),
+      })),
+    });
+  } catch (error) {
+    console.error("Summary API error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
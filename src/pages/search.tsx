@@ -1,39 +1,199 @@
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
-import { Search, Zap, Bookmark, X, ExternalLink } from "lucide-react";
-import { algoliasearch } from "algoliasearch";
-import instantsearch, { InstantSearch } from "instantsearch.js";
+import { Search, Zap, Bookmark, X, ExternalLink, Sparkles } from "lucide-react";
+import instantsearch, { InstantSearch, type UiState } from "instantsearch.js";
 import {
   searchBox,
   hits,
   pagination,
   configure,
   refinementList,
+  numericMenu,
+  rangeSlider,
+  panel,
+  sortBy,
 } from "instantsearch.js/es/widgets";
-import { decode } from "he";
+import { encode } from "he";
 import { useToast } from "../hooks/use-toast";
 import { Toaster } from "../components/ui/toaster";
 import { getAnalytics } from "../lib/analytics";
 import AnalyticsDashboard from "../components/AnalyticsDashboard";
 import UserAnalytics from "../components/UserAnalytics";
+import ResultSummaryPanel from "../components/ResultSummaryPanel";
+import SearchSuggestions from "../components/SearchSuggestions";
+import {
+  createSnippetSearchClient,
+  getSearchIndexName,
+  type SearchBackend,
+  type SmartSearchClient,
+} from "../lib/search/searchClient";
+import type { QueryRewrite } from "../lib/search/smartSearch";
+import type { QueryParseError } from "../lib/search/queryParser";
+import { getSortIndexName, SORT_OPTIONS } from "../lib/search/sorting";
+import { createSearchRouting } from "../lib/search/routing";
+import type { Suggestion } from "../lib/search/suggestions";
+import { normalizeTags, type Snippet } from "../lib/snippet";
+import { isWebUrl } from "../lib/utils";
 
-interface SearchHit {
-  objectID: string;
+// Indexed records are Snippets, returned with Algolia's highlighting
+type SearchHit = Snippet & {
   _highlightResult: {
     title?: { value: string };
-    snippet?: { value: string };
+    snippetText?: { value: string };
   };
+};
+
+type InstantSearchClient = Parameters<typeof instantsearch>[0]["searchClient"];
+
+const facetListClasses = {
+  list: "space-y-1",
+  label: "flex items-center gap-2 text-sm text-gray-700",
+  checkbox: "rounded border-gray-300",
+  count: "text-xs text-gray-500",
+  searchableRoot: "mb-2",
+  searchableInput:
+    "w-full px-2 py-1 text-sm border border-gray-200 rounded focus:border-blue-500",
+  showMore: "mt-2 text-xs text-blue-600 hover:text-blue-700",
+};
+
+// Titled panel around a facet widget, hidden when it has nothing to refine
+const facetPanel = (title: string) =>
+  panel<typeof refinementList | typeof numericMenu | typeof rangeSlider>({
+    templates: {
+      header: () => title,
+    },
+    hidden: ({ canRefine }) => !canRefine,
+    cssClasses: {
+      root: "rounded-lg border bg-white p-3",
+      header:
+        "mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500",
+    },
+  });
+
+// numericMenu ranges for publishedAtTimestamp, relative to page load
+const getPublishedDateRanges = () => {
+  const now = Math.floor(Date.now() / 1000);
+  const day = 24 * 60 * 60;
+  return [
+    { label: "Any time" },
+    { label: "Past week", start: now - 7 * day },
+    { label: "Past month", start: now - 30 * day },
+    { label: "Past year", start: now - 365 * day },
+    { label: "Older than a year", end: now - 365 * day },
+  ];
+};
+
+const codeBlockClasses = {
+  root: "mb-4 overflow-hidden rounded-lg border border-gray-800 bg-gray-900",
+  header:
+    "border-b border-gray-800 px-3 py-1 text-xs font-medium uppercase tracking-wide text-gray-400",
+  pre: "overflow-x-auto p-3 sm:p-4 text-xs sm:text-sm leading-relaxed text-gray-100",
+};
+
+// Code is shown verbatim in its own block, apart from the prose description
+const renderCodeBlock = (code: string, language?: string): string => `
+  <div class="${codeBlockClasses.root}">
+    ${
+      language
+        ? `<div class="${codeBlockClasses.header}">${encode(language)}</div>`
+        : ""
+    }
+    <pre class="${codeBlockClasses.pre}"><code>${encode(code)}</code></pre>
+  </div>
+`;
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+// Links to the other copies of a cross-posted article
+const renderAlternateUrls = (urls: string[]): string => `
+  <p class="mb-4 text-xs text-gray-500">
+    Also published at
+    ${urls
+      .map(
+        (url) =>
+          `<a href="${encode(
+            url
+          )}" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:underline">${encode(
+            getHostname(url)
+          )}</a>`
+      )
+      .join(", ")}
+  </p>
+`;
+
+interface RelatedHit {
+  objectID: string;
   title: string;
-  snippet: string;
-  tags: string[] | string;
+  url?: string;
   source: string;
-  url: string;
+  sharedTags: string[];
 }
 
-const searchClient = algoliasearch(
-  process.env.NEXT_PUBLIC_ALGOLIA_APP_ID!,
-  process.env.NEXT_PUBLIC_ALGOLIA_SEARCH_API_KEY!
-);
+// Contents of a hit card's "Related snippets" section
+const renderRelatedSnippets = (related: RelatedHit[]): string => {
+  if (related.length === 0) {
+    return '<p class="text-sm text-gray-500">No related snippets found.</p>';
+  }
+  return `
+    <h4 class="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Related snippets</h4>
+    <ul class="space-y-2">
+      ${related
+        .map(
+          (hit) => `
+            <li class="flex flex-wrap items-center gap-2 text-sm">
+              <a href="${encode(
+                isWebUrl(hit.url) ? hit.url : "#"
+              )}" target="_blank" rel="noopener noreferrer" class="text-blue-600 hover:underline">${encode(
+            hit.title
+          )}</a>
+              <span class="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">${encode(
+                hit.source
+              )}</span>
+              ${
+                hit.sharedTags.length > 0
+                  ? `<span class="text-xs text-gray-500">shares ${encode(
+                      hit.sharedTags.join(", ")
+                    )}</span>`
+                  : ""
+              }
+            </li>
+          `
+        )
+        .join("")}
+    </ul>
+  `;
+};
+
+// Adds or removes facet values in one index's refinementList
+const updateRefinements = (
+  uiState: UiState,
+  indexName: string,
+  filters: Record<string, string[]>,
+  action: "add" | "remove"
+): UiState => {
+  const indexUiState = uiState[indexName] ?? {};
+  const refinementList = { ...indexUiState.refinementList };
+  for (const [attribute, values] of Object.entries(filters)) {
+    const current = refinementList[attribute] ?? [];
+    refinementList[attribute] =
+      action === "add"
+        ? Array.from(new Set([...current, ...values]))
+        : current.filter((value) => !values.includes(value));
+  }
+  return {
+    ...uiState,
+    [indexName]: { ...indexUiState, refinementList, page: undefined },
+  };
+};
+
+// A query counts as a search once results have stayed on screen this long
+const SEARCH_TRACKING_DELAY_MS = 1500;
 
 // localStorage key for saved snippets
 const SAVED_SNIPPETS_KEY = "dev-snippet-search-saved-snippets";
@@ -57,10 +217,11 @@ const loadSnippetsFromStorage = (): SearchHit[] => {
   }
 };
 
-// Simple markdown parser for tags
+// Simple markdown parser for tags. Tags are data (feed categories, a local
+// note's frontmatter), so they are escaped before any markup is added.
 const parseMarkdownInTag = (tag: string): string => {
   return (
-    tag
+    encode(tag)
       // Bold text: **text** or __text__
       .replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
       .replace(/__(.*?)__/g, "<strong>$1</strong>")
@@ -73,9 +234,10 @@ const parseMarkdownInTag = (tag: string): string => {
         '<code class="bg-gray-100 px-1 rounded text-xs">$1</code>'
       )
       // Links: [text](url)
-      .replace(
-        /\[([^\]]+)\]\(([^)]+)\)/g,
-        '<a href="$2" class="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer">$1</a>'
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_, text: string, href: string) =>
+        isWebUrl(href)
+          ? `<a href="${href}" class="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer">${text}</a>`
+          : text
       )
       // Strikethrough: ~~text~~
       .replace(/~~(.*?)~~/g, '<del class="line-through">$1</del>')
@@ -90,6 +252,25 @@ export default function SnippetSearchApp() {
   const [savedSnippets, setSavedSnippets] = useState<SearchHit[]>([]);
   const [showSavedModal, setShowSavedModal] = useState(false);
   const [isHydrated, setIsHydrated] = useState(false);
+  // Falls back to the offline index when Algolia is missing or unreachable
+  const [searchBackend, setSearchBackend] = useState<SearchBackend>("algolia");
+  // Problems with operators typed into the search box (e.g. after:2024-13-01)
+  const [parseErrors, setParseErrors] = useState<QueryParseError[]>([]);
+  // What is typed in the search box, for autocomplete
+  const [typedQuery, setTypedQuery] = useState("");
+  const [recentQueries, setRecentQueries] = useState<string[]>([]);
+  // "Smart search" sends queries through the AI rewriter first
+  const [smartSearch, setSmartSearch] = useState(false);
+  const [queryRewrite, setQueryRewrite] = useState<QueryRewrite | null>(null);
+  const smartSearchRef = useRef(false);
+  const smartClientRef = useRef<SmartSearchClient | null>(null);
+  // Query and hits on screen, for the AI summary panel
+  const [resultPage, setResultPage] = useState({
+    query: "",
+    objectIDs: [] as string[],
+  });
+  // Queries whose suggested filters were already applied once
+  const appliedRewritesRef = useRef(new Set<string>());
 
   const { toast } = useToast();
   const analytics = getAnalytics();
@@ -98,6 +279,9 @@ export default function SnippetSearchApp() {
   useEffect(() => {
     const saved = loadSnippetsFromStorage();
     setSavedSnippets(saved);
+    setRecentQueries([
+      ...analytics.getAnalyticsSummary().userBehavior.searchQueries,
+    ]);
     setIsHydrated(true);
 
     // Track page view
@@ -126,15 +310,49 @@ export default function SnippetSearchApp() {
   useEffect(() => {
     if (!searchContainerRef.current) return;
 
+    const indexName = getSearchIndexName();
+
+    // Suggested filters become regular refinements, once per query, so
+    // unchecking one afterwards sticks
+    const handleRewrite = (rewrite: QueryRewrite | null) => {
+      setQueryRewrite(rewrite);
+      if (!rewrite || appliedRewritesRef.current.has(rewrite.originalQuery)) {
+        return;
+      }
+      appliedRewritesRef.current.add(rewrite.originalQuery);
+      if (Object.keys(rewrite.appliedFilters).length > 0) {
+        search.setUiState((uiState) =>
+          updateRefinements(uiState, indexName, rewrite.appliedFilters, "add")
+        );
+      }
+    };
+
+    const { client, backend } = createSnippetSearchClient(
+      setSearchBackend,
+      setParseErrors,
+      {
+        isEnabled: () => smartSearchRef.current,
+        onRewrite: handleRewrite,
+      }
+    );
+    setSearchBackend(backend);
+    smartClientRef.current = client;
+
     const search = instantsearch({
-      indexName: process.env.NEXT_PUBLIC_ALGOLIA_INDEX_NAME!,
-      searchClient,
+      indexName,
+      searchClient: client as unknown as InstantSearchClient,
+      // Mirrors query, refinements, sort and page into /search?q=...
+      routing: createSearchRouting(indexName),
     });
 
     search.addWidgets([
       searchBox({
         container: "#algolia-searchbox",
-        placeholder: "Search snippets...",
+        placeholder: 'Search snippets... try tag:react -redux "custom hook"',
+        queryHook: (query, refine) => {
+          setTypedQuery(query);
+          refine(query);
+        },
         cssClasses: {
           root: "relative",
           form: "relative",
@@ -148,7 +366,8 @@ export default function SnippetSearchApp() {
       }),
       refinementList({
         container: "#algolia-filters",
-        attribute: "source",
+        // Merged cross-posts are listed under every copy's source
+        attribute: "sources",
         cssClasses: {
           root: "mb-4",
           list: "flex flex-wrap gap-2",
@@ -158,6 +377,55 @@ export default function SnippetSearchApp() {
           count: "text-xs text-gray-500",
         },
       }),
+      sortBy({
+        container: "#algolia-sort",
+        items: SORT_OPTIONS.map((option) => ({
+          label: option.label,
+          value: getSortIndexName(indexName, option.value),
+        })),
+        cssClasses: {
+          select:
+            "rounded-md border border-gray-200 bg-white px-2 py-1 text-sm text-gray-700 focus:border-blue-500",
+        },
+      }),
+      facetPanel("Tags")(refinementList)({
+        container: "#algolia-filter-tags",
+        attribute: "tags",
+        searchable: true,
+        searchablePlaceholder: "Search tags...",
+        limit: 8,
+        showMore: true,
+        showMoreLimit: 30,
+        cssClasses: facetListClasses,
+      }),
+      facetPanel("Language")(refinementList)({
+        container: "#algolia-filter-language",
+        attribute: "language",
+        cssClasses: facetListClasses,
+      }),
+      facetPanel("Author")(refinementList)({
+        container: "#algolia-filter-author",
+        attribute: "author",
+        limit: 5,
+        showMore: true,
+        cssClasses: facetListClasses,
+      }),
+      facetPanel("Published")(numericMenu)({
+        container: "#algolia-filter-date",
+        attribute: "publishedAtTimestamp",
+        items: getPublishedDateRanges(),
+        cssClasses: {
+          list: "space-y-1",
+          label: "flex items-center gap-2 text-sm text-gray-700",
+          radio: "border-gray-300",
+        },
+      }),
+      facetPanel("Reading time (min)")(rangeSlider)({
+        container: "#algolia-filter-reading-time",
+        attribute: "readingTime",
+        step: 1,
+        pips: false,
+      }),
       hits({
         container: "#algolia-hits",
         cssClasses: {
@@ -167,28 +435,24 @@ export default function SnippetSearchApp() {
         },
         templates: {
           item: (hit: SearchHit) => {
-            // Normalize tags: always array
-            const tagArray = Array.isArray(hit.tags)
-              ? hit.tags
-              : typeof hit.tags === "string"
-              ? hit.tags.split(",").map((tag) => tag.trim())
-              : [];
-
-            const sourceText = hit.source || "Unknown Source";
-            const titleText =
-              hit._highlightResult.title?.value || hit.title || "";
-            const snippetText =
-              hit._highlightResult.snippet?.value || hit.snippet || "";
+            // Indexes uploaded before the schema stored tags as strings
+            const tagArray = normalizeTags(hit.tags);
 
-            // Decode HTML entities and clean up the content
-            const decodedSnippetText = decode(snippetText);
-
-            // Remove HTML tags and extract clean text for display
-            const cleanSnippetText = decodedSnippetText
-              .replace(/<img[^>]*>/g, "") // Remove image tags
-              .replace(/<[^>]*>/g, "") // Remove all other HTML tags
-              .replace(/\s+/g, " ") // Normalize whitespace
-              .trim();
+            const sourceText = encode(hit.source || "Unknown Source");
+            // Highlighted values arrive escaped by InstantSearch
+            const titleText =
+              hit._highlightResult.title?.value || encode(hit.title || "");
+            const url = isWebUrl(hit.url) ? hit.url : undefined;
+            const alternateUrls = (hit.urls ?? []).slice(1).filter(isWebUrl);
+            // objectIDs of local records are file paths
+            const objectId = encode(hit.objectID);
+            // Escaped text with the query's words in <mark>; indexes uploaded
+            // before snippetText was highlighted fall back to the snippetHtml
+            // sanitized server-side against an allow-list of elements
+            const snippetHtml =
+              hit._highlightResult.snippetText?.value ??
+              hit.snippetHtml ??
+              encode(hit.snippetText ?? hit.snippet ?? "");
 
             // Check if snippet is saved (only after hydration)
             const isSaved =
@@ -208,7 +472,7 @@ export default function SnippetSearchApp() {
                         class="text-gray-400 hover:text-gray-600 p-1 bookmark-btn ${
                           isSaved ? "text-blue-600 hover:text-blue-700" : ""
                         }" 
-                        data-object-id="${hit.objectID}"
+                        data-object-id="${objectId}"
                         data-saved="${isSaved}"
                         title="${
                           isSaved ? "Remove from saved" : "Save snippet"
@@ -224,9 +488,17 @@ export default function SnippetSearchApp() {
                   </div>
 
                   <div class="bg-gray-50 rounded-lg p-3 sm:p-4 mb-4 text-sm overflow-x-auto prose prose-sm max-w-none">
-                    <div class="whitespace-pre-wrap">${cleanSnippetText}</div>
+                    <div>${snippetHtml}</div>
                   </div>
 
+                  ${
+                    alternateUrls.length > 0
+                      ? renderAlternateUrls(alternateUrls)
+                      : ""
+                  }
+
+                  ${hit.code ? renderCodeBlock(hit.code, hit.language) : ""}
+
                   <div class="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                     <div class="flex flex-wrap gap-1 sm:gap-2">
                       ${tagArray
@@ -238,17 +510,44 @@ export default function SnippetSearchApp() {
                         )
                         .join("")}
                     </div>
-                    <a href="${
-                      hit.url
-                    }" target="_blank" rel="noopener noreferrer" class="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-transparent hover:bg-accent hover:text-accent-foreground h-9 rounded-md px-3 self-start sm:self-auto" onclick="window.analytics && window.analytics.trackExternalLink('${
-              hit.url
-            }', '${hit.source}')">
+                    <div class="flex flex-wrap items-center gap-2 self-start sm:self-auto">
+                    ${
+                      hit.code
+                        ? `<button
+                      type="button"
+                      class="explain-btn inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors border border-input bg-transparent hover:bg-accent hover:text-accent-foreground h-9 px-3"
+                      data-object-id="${objectId}"
+                      aria-expanded="false"
+                    >
+                      Explain
+                    </button>`
+                        : ""
+                    }
+                    <button
+                      type="button"
+                      class="related-btn inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors border border-input bg-transparent hover:bg-accent hover:text-accent-foreground h-9 px-3"
+                      data-object-id="${objectId}"
+                      aria-expanded="false"
+                    >
+                      Related snippets
+                    </button>
+                    <a href="${encode(
+                      url ?? "#"
+                    )}" target="_blank" rel="noopener noreferrer" class="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 border border-input bg-transparent hover:bg-accent hover:text-accent-foreground h-9 rounded-md px-3 self-start sm:self-auto" onclick="window.analytics && window.analytics.trackExternalLink(${encode(
+              JSON.stringify(url ?? "")
+            )}, ${encode(JSON.stringify(hit.source))})">
                       <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path>
                       </svg>
                       Read more
                     </a>
+                    </div>
                   </div>
+                  <div class="snippet-explanation hidden mt-4 border-t pt-4" data-explanation-for="${objectId}">
+                    <h4 class="text-sm font-semibold text-gray-900 mb-2">Explanation</h4>
+                    <div class="explanation-text whitespace-pre-wrap text-sm text-gray-700" aria-live="polite"></div>
+                  </div>
+                  <div class="related-snippets hidden mt-4 border-t pt-4" data-related-for="${objectId}"></div>
                 </div>
               </div>
             `;
@@ -282,6 +581,35 @@ export default function SnippetSearchApp() {
       }),
     ]);
 
+    // Record settled queries, which feed the recent searches in autocomplete
+    let lastTrackedQuery = "";
+    let trackingTimer: ReturnType<typeof setTimeout> | undefined;
+    search.on("render", () => {
+      const query = search.helper?.state.query?.trim() ?? "";
+      const objectIDs =
+        search.helper?.lastResults?.hits.map(
+          (hit: SearchHit) => hit.objectID
+        ) ?? [];
+      setResultPage((current) =>
+        current.query === query &&
+        current.objectIDs.join(",") === objectIDs.join(",")
+          ? current
+          : { query, objectIDs }
+      );
+
+      clearTimeout(trackingTimer);
+      trackingTimer = setTimeout(() => {
+        const query = search.helper?.state.query?.trim() ?? "";
+        const results = search.helper?.lastResults;
+        if (!query || !results || query === lastTrackedQuery) return;
+        lastTrackedQuery = query;
+        analytics.trackSearch(query, results.nbHits, results.processingTimeMS);
+        setRecentQueries([
+          ...analytics.getAnalyticsSummary().userBehavior.searchQueries,
+        ]);
+      }, SEARCH_TRACKING_DELAY_MS);
+    });
+
     search.start();
     searchInstanceRef.current = search;
 
@@ -353,14 +681,114 @@ export default function SnippetSearchApp() {
       }
     };
 
-    // Listen for clicks on bookmark buttons
+    // Toggles a hit card's related snippets, fetching them on first open
+    const handleRelatedClick = async (event: Event) => {
+      const relatedBtn = (event.target as HTMLElement).closest(
+        ".related-btn"
+      ) as HTMLElement | null;
+      const objectId = relatedBtn?.getAttribute("data-object-id");
+      if (!relatedBtn || !objectId) return;
+
+      const container = document.querySelector(
+        `[data-related-for="${CSS.escape(objectId)}"]`
+      );
+      if (!container) return;
+
+      const isOpen = !container.classList.toggle("hidden");
+      relatedBtn.setAttribute("aria-expanded", String(isOpen));
+      if (!isOpen || container.getAttribute("data-loaded") === "true") return;
+
+      container.innerHTML =
+        '<p class="text-sm text-gray-500">Finding related snippets...</p>';
+      try {
+        const response = await fetch(
+          `/api/related?objectID=${encodeURIComponent(objectId)}`
+        );
+        if (!response.ok) {
+          throw new Error(
+            `Related request failed with status ${response.status}`
+          );
+        }
+        const data = await response.json();
+        container.innerHTML = renderRelatedSnippets(data.hits);
+        container.setAttribute("data-loaded", "true");
+        analytics.trackEvent("related_snippets", {
+          objectId,
+          resultsCount: data.hits.length,
+        });
+      } catch (error) {
+        console.error("Error loading related snippets:", error);
+        container.innerHTML =
+          '<p class="text-sm text-red-600">Could not load related snippets.</p>';
+      }
+    };
+
+    // Toggles a hit card's code explanation, streaming it in on first open
+    const handleExplainClick = async (event: Event) => {
+      const explainBtn = (event.target as HTMLElement).closest(
+        ".explain-btn"
+      ) as HTMLElement | null;
+      const objectId = explainBtn?.getAttribute("data-object-id");
+      if (!explainBtn || !objectId) return;
+
+      const container = document.querySelector(
+        `[data-explanation-for="${CSS.escape(objectId)}"]`
+      );
+      const output = container?.querySelector(".explanation-text");
+      if (!container || !output) return;
+
+      const isOpen = !container.classList.toggle("hidden");
+      explainBtn.setAttribute("aria-expanded", String(isOpen));
+      const state = container.getAttribute("data-state");
+      if (!isOpen || state === "loading" || state === "loaded") return;
+
+      container.setAttribute("data-state", "loading");
+      output.classList.remove("text-red-600");
+      output.textContent = "Explaining...";
+      try {
+        const response = await fetch(
+          `/api/explain?objectID=${encodeURIComponent(objectId)}`
+        );
+        if (!response.ok || !response.body) {
+          throw new Error(
+            `Explain request failed with status ${response.status}`
+          );
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        output.textContent = "";
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          output.textContent += decoder.decode(value, { stream: true });
+        }
+        container.setAttribute("data-state", "loaded");
+        analytics.trackEvent("snippet_explain", {
+          objectId,
+          cache: response.headers.get("X-Cache"),
+        });
+      } catch (error) {
+        console.error("Error explaining snippet:", error);
+        container.removeAttribute("data-state");
+        output.classList.add("text-red-600");
+        output.textContent = "Could not explain this snippet.";
+      }
+    };
+
+    // Listen for clicks on bookmark, explain and related snippets buttons
     document.addEventListener("click", handleBookmarkClick);
+    document.addEventListener("click", handleExplainClick);
+    document.addEventListener("click", handleRelatedClick);
 
     return () => {
+      clearTimeout(trackingTimer);
       search.dispose();
       document.removeEventListener("click", handleBookmarkClick);
+      document.removeEventListener("click", handleExplainClick);
+      document.removeEventListener("click", handleRelatedClick);
     };
-  }, [toast, isHydrated]); // Removed savedSnippets from dependencies
+  }, [toast, isHydrated, analytics]); // Removed savedSnippets from dependencies
 
   // Update bookmark states when savedSnippets changes (without recreating search)
   useEffect(() => {
@@ -397,6 +825,78 @@ export default function SnippetSearchApp() {
     });
   }, [savedSnippets, isHydrated]);
 
+  // Tags become refinements in place of the word being typed; titles and
+  // recent queries replace the query
+  const handleSuggestionSelect = (suggestion: Suggestion) => {
+    const search = searchInstanceRef.current;
+    if (!search) return;
+
+    const indexName = getSearchIndexName();
+    const query =
+      suggestion.type === "tag"
+        ? typedQuery.replace(/(^|\s)(tags?:)?\S*$/i, "").trim()
+        : suggestion.value;
+
+    search.setUiState((uiState) => {
+      const indexUiState = uiState[indexName] ?? {};
+      const tags = indexUiState.refinementList?.tags ?? [];
+      return {
+        ...uiState,
+        [indexName]: {
+          ...indexUiState,
+          query,
+          page: undefined,
+          refinementList:
+            suggestion.type === "tag" && !tags.includes(suggestion.value)
+              ? {
+                  ...indexUiState.refinementList,
+                  tags: [...tags, suggestion.value],
+                }
+              : indexUiState.refinementList,
+        },
+      };
+    });
+    setTypedQuery(query);
+
+    analytics.trackEvent("suggestion_select", {
+      type: suggestion.type,
+      value: suggestion.value,
+    });
+  };
+
+  const handleSmartSearchToggle = (enabled: boolean) => {
+    setSmartSearch(enabled);
+    smartSearchRef.current = enabled;
+    searchInstanceRef.current?.refresh();
+    analytics.trackEvent("smart_search_toggle", { enabled });
+  };
+
+  // Drops the rewrite and the filters it added for the current query
+  const handleSearchOriginal = () => {
+    const search = searchInstanceRef.current;
+    if (!search || !queryRewrite) return;
+
+    smartClientRef.current?.searchOriginal(queryRewrite.originalQuery);
+    setQueryRewrite(null);
+    if (Object.keys(queryRewrite.appliedFilters).length > 0) {
+      search.setUiState((uiState) =>
+        updateRefinements(
+          uiState,
+          getSearchIndexName(),
+          queryRewrite.appliedFilters,
+          "remove"
+        )
+      );
+    } else {
+      search.refresh();
+    }
+
+    analytics.trackEvent("smart_search_original", {
+      query: queryRewrite.originalQuery,
+      rewrittenQuery: queryRewrite.rewrittenQuery,
+    });
+  };
+
   const handleRemoveSavedSnippet = (snippet: SearchHit) => {
     setSavedSnippets((prev) =>
       prev.filter((saved) => saved.objectID !== snippet.objectID)
@@ -448,21 +948,110 @@ export default function SnippetSearchApp() {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5 z-10" />
               <div id="algolia-searchbox"></div>
+              <SearchSuggestions
+                inputSelector="#algolia-searchbox input"
+                query={typedQuery}
+                recentQueries={recentQueries}
+                onSelect={handleSuggestionSelect}
+              />
             </div>
+            {parseErrors.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm text-red-600" role="alert">
+                {parseErrors.map((parseError) => (
+                  <li key={`${parseError.index}-${parseError.message}`}>
+                    {parseError.message}
+                    {parseError.token && (
+                      <code className="ml-2 bg-red-50 px-1 rounded text-xs">
+                        {parseError.token}
+                      </code>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {queryRewrite && (
+              <div className="mt-2 flex flex-wrap items-center gap-x-2 gap-y-1 rounded-md border border-purple-200 bg-purple-50 px-3 py-2 text-sm text-purple-900">
+                <Sparkles className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  Searching for:{" "}
+                  <strong className="font-semibold">
+                    {queryRewrite.rewrittenQuery}
+                  </strong>
+                  {queryRewrite.explanation && (
+                    <> — {queryRewrite.explanation}</>
+                  )}
+                </span>
+                {Object.entries(queryRewrite.appliedFilters).map(
+                  ([attribute, values]) => (
+                    <span
+                      key={attribute}
+                      className="rounded-full bg-purple-100 px-2 py-0.5 text-xs"
+                    >
+                      {attribute}: {values.join(", ")}
+                    </span>
+                  )
+                )}
+                <button
+                  type="button"
+                  onClick={handleSearchOriginal}
+                  className="text-purple-700 underline hover:text-purple-900"
+                >
+                  Search &ldquo;{queryRewrite.originalQuery}&rdquo; instead
+                </button>
+              </div>
+            )}
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mt-2 gap-1">
-              <p className="text-sm text-gray-500">Search powered by Algolia</p>
+              <p className="text-sm text-gray-500">
+                {searchBackend === "algolia"
+                  ? "Search powered by Algolia"
+                  : "Searching the offline index (Algolia unavailable)"}
+              </p>
               <div className="flex items-center gap-1 text-xs text-gray-400">
                 <span>Powered by</span>
                 <Zap className="w-3 h-3" />
-                <span className="font-medium">Algolia</span>
+                <span className="font-medium">
+                  {searchBackend === "algolia" ? "Algolia" : "Local BM25 index"}
+                </span>
               </div>
             </div>
           </div>
 
           {/* Filters */}
-          <div id="algolia-filters"></div>
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+            <div id="algolia-filters"></div>
+            <label className="flex items-center gap-2 text-sm text-gray-500">
+              <input
+                type="checkbox"
+                checked={smartSearch}
+                onChange={(event) =>
+                  handleSmartSearchToggle(event.target.checked)
+                }
+                className="rounded border-gray-300"
+              />
+              <Sparkles className="w-4 h-4 text-purple-500" />
+              Smart search
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-500">
+              Sort by
+              <div id="algolia-sort"></div>
+            </label>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            <div id="algolia-filter-tags"></div>
+            <div id="algolia-filter-language"></div>
+            <div id="algolia-filter-author"></div>
+            <div id="algolia-filter-date"></div>
+            <div id="algolia-filter-reading-time"></div>
+          </div>
 
           {/* Search Results */}
+          <ResultSummaryPanel
+            query={resultPage.query}
+            objectIDs={resultPage.objectIDs}
+            onSuggestionSelect={(query) =>
+              handleSuggestionSelect({ type: "query", value: query })
+            }
+          />
           <div id="algolia-hits"></div>
 
           {/* Pagination */}
@@ -502,20 +1091,8 @@ export default function SnippetSearchApp() {
                 ) : (
                   <div className="grid gap-6">
                     {savedSnippets.map((snippet) => {
-                      // Normalize tags: always array
-                      const tagArray = Array.isArray(snippet.tags)
-                        ? snippet.tags
-                        : typeof snippet.tags === "string"
-                        ? snippet.tags.split(",").map((tag) => tag.trim())
-                        : [];
-
-                      // Decode HTML entities and clean up the content
-                      const decodedSnippetText = decode(snippet.snippet);
-                      const cleanSnippetText = decodedSnippetText
-                        .replace(/<img[^>]*>/g, "")
-                        .replace(/<[^>]*>/g, "")
-                        .replace(/\s+/g, " ")
-                        .trim();
+                      // Saved before the schema, tags may be a string
+                      const tagArray = normalizeTags(snippet.tags);
 
                       return (
                         <div
@@ -547,10 +1124,23 @@ export default function SnippetSearchApp() {
 
                             <div className="bg-gray-50 rounded-lg p-3 sm:p-4 mb-4 text-sm overflow-x-auto prose prose-sm max-w-none">
                               <div className="whitespace-pre-wrap">
-                                {cleanSnippetText}
+                                {snippet.snippetText ?? snippet.snippet}
                               </div>
                             </div>
 
+                            {snippet.code && (
+                              <div className={codeBlockClasses.root}>
+                                {snippet.language && (
+                                  <div className={codeBlockClasses.header}>
+                                    {snippet.language}
+                                  </div>
+                                )}
+                                <pre className={codeBlockClasses.pre}>
+                                  <code>{snippet.code}</code>
+                                </pre>
+                              </div>
+                            )}
+
                             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                               <div className="flex flex-wrap gap-1 sm:gap-2">
                                 {tagArray.map((tag, index) => (
@@ -564,10 +1154,15 @@ export default function SnippetSearchApp() {
                                 ))}
                               </div>
                               <a
-                                href={snippet.url}
+                                href={
+                                  isWebUrl(snippet.url)
+                                    ? snippet.url
+                                    : undefined
+                                }
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 onClick={() =>
+                                  snippet.url &&
                                   analytics.trackExternalLink(
                                     snippet.url,
                                     snippet.source